@@ -0,0 +1,827 @@
+// @ts-check
+// The rules of a round, free of React and the DOM. `stepGame` is pure: the
+// same config (including its seed) and the same keys fed to the same steps
+// always produce the same game, which is what replays and headless rule
+// checks rely on. All times are ms since the round started.
+//
+// This is a plain ES module, like the message catalogs, so the page and Node
+// both load it as is. Its types are JSDoc typedefs that index.tsx imports.
+
+// --- Keyboard Layouts ---
+
+// Physical keys, named by their US QWERTY legend. Hit detection, key stats
+// and key memory all use these names, so they mean the same key whatever
+// layout or IME is active.
+export const PHYSICAL_ROWS = ["`1234567890-=", "QWERTYUIOP[]", "ASDFGHJKL;'", "ZXCVBNM,./", " "];
+
+/**
+ * @typedef {Object} KeyboardLayout
+ * @property {string} id
+ * @property {string} name
+ * @property {'en' | 'zh'} mode
+ * @property {{ [key: string]: string }} legend What each physical key types, row by row in PHYSICAL_ROWS order.
+ * @property {{ [symbol: string]: string }} keyFor Symbol → physical key; shifted characters resolve to their key as well.
+ */
+
+/**
+ * @param {string} id
+ * @param {string} name
+ * @param {'en' | 'zh'} mode
+ * @param {string[]} rows
+ * @param {string[]} [shiftedRows]
+ * @returns {KeyboardLayout}
+ */
+const defineLayout = (id, name, mode, rows, shiftedRows = []) => {
+  /** @type {{ [key: string]: string }} */
+  const legend = {};
+  /** @type {{ [symbol: string]: string }} */
+  const keyFor = {};
+  PHYSICAL_ROWS.forEach((row, r) => {
+    const symbols = Array.from(rows[r]);
+    const shifted = Array.from(shiftedRows[r] || "");
+    Array.from(row).forEach((key, i) => {
+      legend[key] = symbols[i];
+      if (shifted[i] && !(shifted[i] in keyFor)) keyFor[shifted[i]] = key;
+      keyFor[symbols[i]] = key;
+    });
+  });
+  return { id, name, mode, legend, keyFor };
+};
+
+/** @type {KeyboardLayout[]} */
+export const KEYBOARD_LAYOUTS = [
+  defineLayout('qwerty', "QWERTY", 'en',
+    ["`1234567890-=", "QWERTYUIOP[]", "ASDFGHJKL;'", "ZXCVBNM,./", " "],
+    ["~!@#$%^&*()_+", "QWERTYUIOP{}", 'ASDFGHJKL:"', "ZXCVBNM<>?"]),
+  defineLayout('dvorak', "Dvorak", 'en',
+    ["`1234567890[]", "',.PYFGCRL/=", "AOEUIDHTNS-", ";QJKXBMWVZ", " "],
+    ["~!@#$%^&*(){}", '"<>PYFGCRL?+', "AOEUIDHTNS_", ":QJKXBMWVZ"]),
+  defineLayout('colemak', "Colemak", 'en',
+    ["`1234567890-=", "QWFPGJLUY;[]", "ARSTDHNEIO'", "ZXCVBKM,./", " "],
+    ["~!@#$%^&*()_+", "QWFPGJLUY:{}", 'ARSTDHNEIO"', "ZXCVBKM<>?"]),
+  // AZERTY digits need Shift; the keys are labelled with the digit because
+  // that is what the drills ask for.
+  defineLayout('azerty', "AZERTY", 'en',
+    ["²1234567890)=", "AZERTYUIOP^$", "QSDFGHJKLMù", "WXCVBN,;:!", " "],
+    ["²&é\"'(-è_çà°+", "AZERTYUIOP¨£", "QSDFGHJKLM%", "WXCVBN?./§"]),
+  // 'ˉ' (first tone) is the space bar on every Zhuyin layout, as in a real IME.
+  defineLayout('dai-chien', "大千 (Standard)", 'zh',
+    ["`ㄅㄉˇˋㄓˊ˙ㄚㄞㄢㄦ=", "ㄆㄊㄍㄐㄔㄗㄧㄛㄟㄣ[]", "ㄇㄋㄎㄑㄕㄘㄨㄜㄠㄤ'", "ㄈㄌㄏㄒㄖㄙㄩㄝㄡㄥ", "ˉ"]),
+  defineLayout('eten', "倚天 (ETen)", 'zh',
+    ["`˙ˊˇˋ56ㄑㄢㄣㄤㄥㄦ", "ㄟㄝㄧㄜㄊㄡㄩㄞㄛㄆ[]", "ㄚㄙㄉㄈㄐㄏㄖㄎㄌㄗㄘ", "ㄠㄨㄒㄍㄅㄋㄇㄓㄔㄕ", "ˉ"]),
+  defineLayout('ibm', "IBM", 'zh',
+    ["`ㄅㄆㄇㄈㄉㄊㄋㄌㄍㄎㄏ=", "ㄐㄑㄒㄓㄔㄕㄖㄗㄘㄙ[]", "ㄧㄨㄩㄚㄛㄜㄝㄞㄟㄠ'", "ㄡㄢㄣㄤㄥㄦ˙ˊˇˋ", "ˉ"])
+];
+
+export const DEFAULT_LAYOUTS = { en: 'qwerty', zh: 'dai-chien' };
+
+/**
+ * Falls back to the mode's default for unknown ids and for data saved before
+ * layouts existed.
+ * @param {string | undefined} id
+ * @param {'en' | 'zh'} mode
+ * @returns {KeyboardLayout}
+ */
+export const layoutById = (id, mode) =>
+  KEYBOARD_LAYOUTS.find((l) => l.id === id && l.mode === mode)
+  || /** @type {KeyboardLayout} */ (KEYBOARD_LAYOUTS.find((l) => l.id === DEFAULT_LAYOUTS[mode]));
+
+// --- Characters ---
+
+export const CHAR_SETS = {
+  en: "ABCDEFGHIJKLMNOPQRSTUVWXYZ1234567890",
+  zh: "ㄅㄆㄇㄈㄉㄊㄋㄌㄍㄎㄏㄐㄑㄒㄓㄔㄕㄖㄗㄘㄙㄧㄨㄩㄚㄛㄜㄝㄞㄟㄠㄡㄢㄣㄤㄥㄦ"
+};
+
+// Zhuyin symbols and tone marks ('ˉ' marks the first tone).
+export const ZHUYIN_SYMBOLS = new Set(Array.from(CHAR_SETS.zh + "ˉˊˇˋ˙"));
+
+// Character → Zhuyin readings for the 漢字 drill. Polyphonic characters list
+// every reading a player may type; any of them defuses the bomb.
+/** @type {{ [char: string]: string[] }} */
+export const HANZI_READINGS = {
+  '貓': ["ㄇㄠˉ"], '狗': ["ㄍㄡˇ"], '魚': ["ㄩˊ"], '鳥': ["ㄋㄧㄠˇ"], '馬': ["ㄇㄚˇ"],
+  '牛': ["ㄋㄧㄡˊ"], '羊': ["ㄧㄤˊ"], '花': ["ㄏㄨㄚˉ"], '草': ["ㄘㄠˇ"], '樹': ["ㄕㄨˋ"],
+  '山': ["ㄕㄢˉ"], '水': ["ㄕㄨㄟˇ"], '火': ["ㄏㄨㄛˇ"], '日': ["ㄖˋ"], '月': ["ㄩㄝˋ"],
+  '天': ["ㄊㄧㄢˉ"], '雨': ["ㄩˇ"], '雲': ["ㄩㄣˊ"], '風': ["ㄈㄥˉ"], '人': ["ㄖㄣˊ"],
+  '口': ["ㄎㄡˇ"], '手': ["ㄕㄡˇ"], '目': ["ㄇㄨˋ"], '耳': ["ㄦˇ"], '小': ["ㄒㄧㄠˇ"],
+  '上': ["ㄕㄤˋ"], '下': ["ㄒㄧㄚˋ"], '學': ["ㄒㄩㄝˊ"], '書': ["ㄕㄨˉ"], '筆': ["ㄅㄧˇ"],
+  '字': ["ㄗˋ"], '吃': ["ㄔˉ"], '來': ["ㄌㄞˊ"], '去': ["ㄑㄩˋ"], '聽': ["ㄊㄧㄥˉ"],
+  '走': ["ㄗㄡˇ"], '跑': ["ㄆㄠˇ"], '開': ["ㄎㄞˉ"], '門': ["ㄇㄣˊ"], '家': ["ㄐㄧㄚˉ"],
+  '爸': ["ㄅㄚˋ"], '媽': ["ㄇㄚˉ"], '哥': ["ㄍㄜˉ"], '姐': ["ㄐㄧㄝˇ"], '弟': ["ㄉㄧˋ"],
+  '妹': ["ㄇㄟˋ"], '我': ["ㄨㄛˇ"], '你': ["ㄋㄧˇ"], '他': ["ㄊㄚˉ"], '是': ["ㄕˋ"],
+  '不': ["ㄅㄨˋ"], '一': ["ㄧˉ"], '二': ["ㄦˋ"], '三': ["ㄙㄢˉ"], '四': ["ㄙˋ"],
+  '五': ["ㄨˇ"], '六': ["ㄌㄧㄡˋ"], '七': ["ㄑㄧˉ"], '八': ["ㄅㄚˉ"], '九': ["ㄐㄧㄡˇ"],
+  '十': ["ㄕˊ"], '紅': ["ㄏㄨㄥˊ"], '白': ["ㄅㄞˊ"], '黑': ["ㄏㄟˉ"], '朋': ["ㄆㄥˊ"],
+  '友': ["ㄧㄡˇ"],
+  // Polyphonic characters
+  '大': ["ㄉㄚˋ", "ㄉㄞˋ"], '中': ["ㄓㄨㄥˉ", "ㄓㄨㄥˋ"], '好': ["ㄏㄠˇ", "ㄏㄠˋ"],
+  '地': ["ㄉㄧˋ", "ㄉㄜ˙"], '看': ["ㄎㄢˋ", "ㄎㄢˉ"], '喝': ["ㄏㄜˉ", "ㄏㄜˋ"],
+  '說': ["ㄕㄨㄛˉ", "ㄕㄨㄟˋ"], '們': ["ㄇㄣ˙", "ㄇㄣˊ"], '的': ["ㄉㄜ˙", "ㄉㄧˊ", "ㄉㄧˋ"],
+  '了': ["ㄌㄜ˙", "ㄌㄧㄠˇ"], '行': ["ㄒㄧㄥˊ", "ㄏㄤˊ"], '樂': ["ㄌㄜˋ", "ㄩㄝˋ"],
+  '長': ["ㄔㄤˊ", "ㄓㄤˇ"], '重': ["ㄓㄨㄥˋ", "ㄔㄨㄥˊ"], '還': ["ㄏㄞˊ", "ㄏㄨㄢˊ"],
+  '會': ["ㄏㄨㄟˋ", "ㄎㄨㄞˋ"], '和': ["ㄏㄜˊ", "ㄏㄢˋ", "ㄏㄜˋ"], '為': ["ㄨㄟˋ", "ㄨㄟˊ"],
+  '少': ["ㄕㄠˇ", "ㄕㄠˋ"], '車': ["ㄔㄜˉ", "ㄐㄩˉ"]
+};
+
+// --- Bombs ---
+
+// Special bombs: freeze slows every falling bomb, nuke clears the screen,
+// heart restores a life, armored must be typed twice, and typing a decoy
+// costs a life (letting it land is free).
+/** @typedef {'normal' | 'freeze' | 'nuke' | 'heart' | 'armored' | 'decoy'} BombKind */
+/** @typedef {{ [kind in Exclude<BombKind, 'normal'>]: number }} SpecialRates */
+
+// A bomb is defused by typing each of its parts in order. Single-key drills
+// simply produce one-part bombs. `segments` holds the accepted spellings of
+// each character in turn (only 漢字 have more than one); `parts` is the whole
+// spelling the player is currently following. A bomb with
+// `typed > 0` is the locked target. `awaitingSince` is when its next part
+// became due (spawn time, then the time of each keystroke on it).
+// `armor` counts the extra times the bomb must be typed before it defuses.
+/**
+ * @typedef {{
+ *   id: number; text: string; parts: string[]; segments: string[][][]; typed: number;
+ *   x: number; y: number; awaitingSince: number; kind: BombKind; armor: number;
+ * }} Bomb
+ */
+
+/**
+ * Physical key that types a part. English characters missing from the layout
+ * fall back to their QWERTY position.
+ * @param {KeyboardLayout} layout
+ * @param {string} part
+ */
+export const keyForPart = (layout, part) =>
+  layout.keyFor[part] || layout.keyFor[part.toUpperCase()] || part.toUpperCase();
+
+/**
+ * Accepted key-part sequences for each character of a bomb's text. Zhuyin is
+ * typed as written (whitespace between syllables is dropped) and English
+ * letter by letter, each as a single segment; every 漢字 is a segment of its
+ * dictionary readings, so polyphonic text never expands into combinations.
+ * @param {'en' | 'zh'} mode
+ * @param {string} text
+ * @returns {string[][][]}
+ */
+export const segmentsFor = (mode, text) => {
+  const chars = Array.from(text);
+  if (mode === 'en' || chars.every((c) => ZHUYIN_SYMBOLS.has(c) || /\s/.test(c))) {
+    return [[mode === 'zh' ? chars.filter((c) => !/\s/.test(c)) : chars]];
+  }
+  return chars.map((c) => HANZI_READINGS[c].map((r) => Array.from(r)));
+};
+
+/**
+ * The spelling a new bomb starts out following: every character's first reading.
+ * @param {string[][][]} segments
+ */
+export const firstSpelling = (segments) => segments.flatMap((readings) => readings[0]);
+
+/**
+ * The segment the next part falls in: where it starts and ends in `parts`,
+ * and its readings still consistent with what has been typed. A reading
+ * always ends in its tone mark, so none is a prefix of another and the
+ * followed reading of each earlier segment is unambiguous.
+ * @param {Bomb} bomb
+ * @returns {{ start: number; end: number; open: string[][] }}
+ */
+const currentSegment = (bomb) => {
+  let start = 0;
+  for (const readings of bomb.segments) {
+    const followed = readings.find((r) => r.every((part, i) => bomb.parts[start + i] === part)) || readings[0];
+    const end = start + followed.length;
+    if (end > bomb.typed) {
+      const open = readings.filter((r) =>
+        r.length > bomb.typed - start && bomb.parts.slice(start, bomb.typed).every((part, i) => r[i] === part));
+      return { start, end, open };
+    }
+    start = end;
+  }
+  return { start, end: start, open: [] };
+};
+
+/**
+ * Parts that could come next on this bomb, the followed spelling's first.
+ * @param {Bomb} bomb
+ */
+export const openParts = (bomb) => {
+  const { start, open } = currentSegment(bomb);
+  return open.map((r) => r[bomb.typed - start]);
+};
+
+/**
+ * Key the player is expected to press next on this bomb.
+ * @param {KeyboardLayout} layout
+ * @param {Bomb} bomb
+ */
+export const nextKey = (layout, bomb) => keyForPart(layout, openParts(bomb)[0]);
+
+/**
+ * Returns the bomb with one more part typed, or null if the key fits no reading.
+ * @param {KeyboardLayout} layout
+ * @param {Bomb} bomb
+ * @param {string} inputKey
+ * @returns {Bomb | null}
+ */
+export const advanceBomb = (layout, bomb, inputKey) => {
+  const { start, end, open } = currentSegment(bomb);
+  const reading = open.find((r) => keyForPart(layout, r[bomb.typed - start]) === inputKey);
+  if (!reading) return null;
+  const parts = [...bomb.parts.slice(0, start), ...reading, ...bomb.parts.slice(end)];
+  return { ...bomb, parts, typed: bomb.typed + 1 };
+};
+
+// --- Difficulty and Challenges ---
+
+// `specials` is the chance that any one spawned bomb is of that kind.
+/** @type {{ name: string; speed: number; count: number; specials: SpecialRates }[]} */
+export const difficulties = [
+  { name: "Very Easy", speed: 2200, count: 1, specials: { freeze: 0.04, nuke: 0.02, heart: 0.04, armored: 0, decoy: 0 } },
+  { name: "Easy", speed: 1800, count: 1, specials: { freeze: 0.04, nuke: 0.02, heart: 0.03, armored: 0.03, decoy: 0.02 } },
+  { name: "Normal", speed: 1500, count: 2, specials: { freeze: 0.03, nuke: 0.015, heart: 0.03, armored: 0.06, decoy: 0.04 } },
+  { name: "Hard", speed: 1200, count: 2, specials: { freeze: 0.03, nuke: 0.01, heart: 0.02, armored: 0.08, decoy: 0.06 } },
+  { name: "Very Hard", speed: 1000, count: 3, specials: { freeze: 0.02, nuke: 0.01, heart: 0.02, armored: 0.1, decoy: 0.08 } },
+];
+
+// How a round is won or lost. Every challenge has its own leaderboards.
+/** @typedef {'survival' | 'sprint' | 'clear' | 'zen'} Challenge */
+
+export const SPRINT_MS = 60000;
+export const CLEAR_TARGET = 30;
+
+// Whether losing every life ends the round. Names and descriptions are in
+// the UI message catalogs under `challenge.<id>`.
+/** @type {{ [challenge in Challenge]: { lives: boolean } }} */
+export const CHALLENGES = {
+  survival: { lives: true },
+  sprint: { lives: true },
+  clear: { lives: false },
+  zen: { lives: false }
+};
+
+// --- Key Memory and Adaptive Pace ---
+
+// Leitner-style memory per key: a miss drops the key back to box 0, a quick
+// hit promotes it. Keys in low boxes, or whose review is due, spawn more often.
+/** @typedef {{ [key: string]: { box: number; due: number } }} KeyMemory */
+/** @typedef {{ speed: number; count: number }} AdaptiveTuning */
+
+const LEITNER_INTERVALS_MS = [0, 60_000, 5 * 60_000, 30 * 60_000, 24 * 60 * 60_000];
+const LEITNER_WEIGHTS = [6, 4, 2.5, 1.5, 1];
+const SLOW_REACTION_MS = 1500;
+const ADAPTIVE_TARGET_ACCURACY = 0.85;
+const ADAPTIVE_WINDOW_MS = 10_000;
+/** @type {AdaptiveTuning} */
+export const ADAPTIVE_START = { speed: 1800, count: 1 };
+
+/**
+ * @param {KeyMemory} memory
+ * @param {string} key
+ * @param {'fast' | 'slow' | 'miss'} outcome
+ * @param {number} now
+ * @returns {KeyMemory}
+ */
+const updateKeyMemory = (memory, key, outcome, now) => {
+  const current = memory[key] || { box: 0, due: now };
+  const box = outcome === 'miss' ? 0
+    : outcome === 'fast' ? Math.min(current.box + 1, LEITNER_INTERVALS_MS.length - 1)
+    : current.box;
+  return { ...memory, [key]: { box, due: now + LEITNER_INTERVALS_MS[box] } };
+};
+
+/**
+ * @param {KeyMemory} memory
+ * @param {string} key
+ * @param {number} now
+ */
+const keyWeight = (memory, key, now) => {
+  const entry = memory[key];
+  if (!entry) return LEITNER_WEIGHTS[1];
+  return LEITNER_WEIGHTS[entry.box] * (now >= entry.due ? 1.5 : 1);
+};
+
+/**
+ * Average weight of the keys needed to type a pool entry.
+ * @param {KeyboardLayout} layout
+ * @param {string} text
+ * @param {KeyMemory} memory
+ * @param {number} now
+ */
+const entryWeight = (layout, text, memory, now) => {
+  const keys = firstSpelling(segmentsFor(layout.mode, text)).map((part) => keyForPart(layout, part));
+  return keys.reduce((sum, key) => sum + keyWeight(memory, key, now), 0) / keys.length;
+};
+
+/**
+ * `random` is a uniform draw in [0, 1), supplied by the caller's RNG.
+ * @template T
+ * @param {T[]} items
+ * @param {(item: T) => number} weightOf
+ * @param {number} random
+ * @returns {T}
+ */
+const pickWeighted = (items, weightOf, random) => {
+  const weights = items.map(weightOf);
+  let roll = random * weights.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+};
+
+/**
+ * Nudges fall speed toward keeping recent accuracy near the target; spawn
+ * count follows speed so the pace rises smoothly rather than in preset jumps.
+ * @param {AdaptiveTuning} tuning
+ * @param {number} recentAccuracy
+ * @returns {AdaptiveTuning}
+ */
+const tuneDifficulty = (tuning, recentAccuracy) => {
+  let speed = tuning.speed;
+  if (recentAccuracy > ADAPTIVE_TARGET_ACCURACY + 0.05) speed *= 0.93;
+  else if (recentAccuracy < ADAPTIVE_TARGET_ACCURACY - 0.05) speed *= 1.1;
+  speed = Math.round(Math.min(2600, Math.max(700, speed)));
+  return { speed, count: speed < 1100 ? 3 : speed < 1600 ? 2 : 1 };
+};
+
+// --- Rounds ---
+
+export const CANVAS_WIDTH = 400;
+export const CANVAS_HEIGHT = 500;
+export const BOMB_RADIUS = 20;
+const GROUND_Y = CANVAS_HEIGHT - BOMB_RADIUS;
+export const STEP_MS = 1000 / 60;
+export const STARTING_LIVES = 10;
+const MAX_LIVES = STARTING_LIVES;
+const FREEZE_MS = 5000;
+const FREEZE_SLOWDOWN = 0.4; // fall-speed multiplier while frozen
+
+// Scoring: a defused bomb is worth its part count plus up to HEIGHT_BONUS for
+// catching it high on the screen, times the combo multiplier. The combo
+// counts consecutive correct keys; a wrong key resets it and costs points.
+const HEIGHT_BONUS = 2;
+const WRONG_KEY_PENALTY = 1;
+/** @type {[combo: number, multiplier: number][]} */
+export const COMBO_TIERS = [[50, 3], [25, 2], [10, 1.5]];
+/** @type {{ grade: string; accuracy: number; streak: number }[]} */
+const GRADES = [
+  { grade: "S", accuracy: 0.95, streak: 30 },
+  { grade: "A", accuracy: 0.9, streak: 0 },
+  { grade: "B", accuracy: 0.75, streak: 0 }
+];
+
+// Where the score came from; `score` is base + height + combo - penalty.
+/** @typedef {{ base: number; height: number; combo: number; penalty: number }} ScoreBreakdown */
+
+/** @param {number} combo */
+export const comboMultiplier = (combo) => (COMBO_TIERS.find(([min]) => combo >= min) || [0, 1])[1];
+
+/**
+ * @param {number} accuracy
+ * @param {number} bestStreak
+ */
+export const gradeRound = (accuracy, bestStreak) =>
+  (GRADES.find((g) => accuracy >= g.accuracy && bestStreak >= g.streak) || { grade: "C" }).grade;
+export const BOMBS_TO_NEXT_LEVEL = 50;
+const ADAPTIVE_TUNE_INTERVAL_MS = 2000;
+
+/**
+ * @typedef {Object} GameConfig
+ * @property {'en' | 'zh'} mode
+ * @property {string[]} pool
+ * @property {number} difficultyIndex
+ * @property {boolean} adaptive
+ * @property {number} seed
+ * @property {number} clockStart Wall-clock time of the round's start, so key-memory review dates stay absolute.
+ * @property {string} [layout] Keyboard layout id; missing in replays recorded before layouts existed.
+ * @property {boolean} [specials] Spawn special bombs. Off for replays recorded before they existed, whose
+ *   random draws would otherwise no longer line up.
+ * @property {Challenge} [challenge] Missing means survival.
+ * @property {boolean} [tunedSpecials] Adaptive rounds draw special bombs at the rates of the preset nearest
+ *   their pace. Off for replays recorded when they always used the first preset's.
+ * @property {boolean} [sharedSpawns] Place new bombs clear of each other but not of the bombs already falling,
+ *   so the random draws don't depend on how fast anyone types and every player with the seed gets the same
+ *   bombs. Off for replays recorded when new bombs also dodged the board.
+ */
+
+/**
+ * Whether the engine can spell a pool entry: any English text, or Zhuyin, or
+ * 漢字 that all have readings.
+ * @param {'en' | 'zh'} mode
+ * @param {string} text
+ */
+const isPlayableEntry = (mode, text) => {
+  if (text.trim() === "") return false;
+  const chars = Array.from(text);
+  return mode === 'en' || chars.every((c) => ZHUYIN_SYMBOLS.has(c) || /\s/.test(c)) || chars.every((c) => HANZI_READINGS[c] !== undefined);
+};
+
+/**
+ * Checks a config from outside the game (an imported replay, a race start)
+ * before it reaches the engine.
+ * @param {unknown} value
+ * @returns {value is GameConfig}
+ */
+export const isGameConfig = (value) => {
+  if (typeof value !== "object" || value === null) return false;
+  const config = /** @type {{ [field: string]: unknown }} */ (value);
+  const { mode, pool, difficultyIndex, challenge } = config;
+  /** @param {unknown} field @param {string} type */
+  const optional = (field, type) => field === undefined || typeof field === type;
+  return (mode === 'en' || mode === 'zh')
+    && Array.isArray(pool) && pool.every((entry) => typeof entry === "string" && isPlayableEntry(mode, entry))
+    && typeof difficultyIndex === "number" && Number.isInteger(difficultyIndex) && difficultyIndex >= 0 && difficultyIndex < difficulties.length
+    && typeof config.adaptive === "boolean" && typeof config.seed === "number" && typeof config.clockStart === "number"
+    && optional(config.layout, "string") && optional(config.specials, "boolean") && optional(config.tunedSpecials, "boolean")
+    && optional(config.sharedSpawns, "boolean")
+    && (challenge === undefined || (typeof challenge === "string" && Object.keys(CHALLENGES).includes(challenge)));
+};
+
+/**
+ * @typedef {{ type: 'spawn'; bomb: Bomb }
+ *   | { type: 'hit'; bomb: Bomb; points: number }
+ *   | { type: 'armor-break'; bomb: Bomb }
+ *   | { type: 'decoy'; bomb: Bomb }
+ *   | { type: 'wrong-key' }
+ *   | { type: 'landed'; count: number }
+ *   | { type: 'level-up'; difficultyIndex: number }
+ *   | { type: 'game-over' }} GameEvent
+ */
+
+// One keypress during a round. `target` is the key the player was expected to
+// press (the locked bomb's next key, else the lowest bomb's) and `reactionMs`
+// the time a correct key took since that part became due.
+/** @typedef {{ t: number; key: string; target: string | null; hit: boolean; reactionMs?: number }} KeystrokeRecord */
+/** @typedef {{ t: number; key: string }} LandedRecord */
+
+/**
+ * @typedef {Object} GameState
+ * @property {GameConfig} config
+ * @property {number} time
+ * @property {number} rng
+ * @property {number} nextBombId
+ * @property {Bomb[]} bombs
+ * @property {number} score
+ * @property {number} lives
+ * @property {number} bombsCleared
+ * @property {number} difficultyIndex
+ * @property {AdaptiveTuning} tuning
+ * @property {number} spawnTimer
+ * @property {number} tuneTimer
+ * @property {number} freezeTimer
+ * @property {number} incoming Bombs sent by a versus opponent, dropped on the next step.
+ * @property {number} combo
+ * @property {number} bestCombo
+ * @property {ScoreBreakdown} breakdown
+ * @property {KeyMemory} keyMemory
+ * @property {KeystrokeRecord[]} keystrokes
+ * @property {LandedRecord[]} landed
+ * @property {boolean} gameOver
+ * @property {GameEvent[]} events Events produced by the most recent step only.
+ */
+
+/**
+ * mulberry32: returns a float in [0, 1) and the next generator state.
+ * @param {number} rng
+ * @returns {[number, number]}
+ */
+export const nextRandom = (rng) => {
+  const next = (rng + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
+/**
+ * @param {GameState} state
+ * @returns {AdaptiveTuning}
+ */
+const currentPace = (state) =>
+  state.config.adaptive ? state.tuning : difficulties[state.difficultyIndex];
+
+/**
+ * Special-bomb rates for the round: the current preset's, or for a tuned
+ * adaptive round those of the preset whose fall speed is closest to its pace.
+ * @param {GameState} state
+ * @returns {SpecialRates}
+ */
+const currentSpecials = (state) => {
+  if (!state.config.adaptive || !state.config.tunedSpecials) return difficulties[state.difficultyIndex].specials;
+  const { speed } = state.tuning;
+  return difficulties.reduce((closest, level) =>
+    (Math.abs(level.speed - speed) < Math.abs(closest.speed - speed) ? level : closest)).specials;
+};
+
+/**
+ * @param {GameConfig} config
+ * @param {KeyMemory} keyMemory
+ * @returns {GameState}
+ */
+export const createGameState = (config, keyMemory) => {
+  /** @type {GameState} */
+  const state = {
+    config,
+    time: 0,
+    rng: config.seed >>> 0,
+    nextBombId: 0,
+    bombs: [],
+    score: 0,
+    lives: STARTING_LIVES,
+    bombsCleared: 0,
+    difficultyIndex: config.difficultyIndex,
+    tuning: ADAPTIVE_START,
+    spawnTimer: 0,
+    tuneTimer: ADAPTIVE_TUNE_INTERVAL_MS,
+    freezeTimer: 0,
+    incoming: 0,
+    combo: 0,
+    bestCombo: 0,
+    breakdown: { base: 0, height: 0, combo: 0, penalty: 0 },
+    keyMemory,
+    keystrokes: [],
+    landed: [],
+    gameOver: false,
+    events: []
+  };
+  state.spawnTimer = currentPace(state).speed;
+  return state;
+};
+
+// The helpers below update the fresh draft that `stepGame` builds; they never
+// touch the previous state's arrays or objects.
+
+/**
+ * @param {GameState} state
+ * @param {string} key
+ * @param {'fast' | 'slow' | 'miss'} outcome
+ */
+const recordKey = (state, key, outcome) => {
+  state.keyMemory = updateKeyMemory(state.keyMemory, key, outcome, state.config.clockStart + state.time);
+};
+
+/**
+ * @param {GameConfig} config
+ * @returns {Challenge}
+ */
+export const challengeOf = (config) => config.challenge || 'survival';
+
+/**
+ * @param {GameState} state
+ * @param {number} count
+ */
+const loseLives = (state, count) => {
+  if (CHALLENGES[challengeOf(state.config)].lives) state.lives = Math.max(0, state.lives - count);
+};
+
+/**
+ * @param {GameState} state
+ * @param {number} penalty
+ */
+const breakStreak = (state, penalty) => {
+  const applied = Math.min(state.score, penalty);
+  state.combo = 0;
+  state.score -= applied;
+  state.breakdown = { ...state.breakdown, penalty: state.breakdown.penalty + applied };
+};
+
+/**
+ * @param {Bomb[]} bombs
+ * @returns {Bomb | null}
+ */
+const lowestBomb = (bombs) =>
+  bombs.reduce((low, b) => (!low || b.y > low.y ? b : low), /** @type {Bomb | null} */ (null));
+
+/**
+ * @param {GameState} state
+ * @param {string} inputKey
+ */
+const applyKey = (state, inputKey) => {
+  const layout = layoutById(state.config.layout, state.config.mode);
+  const t = state.time;
+  const target = state.bombs.find((b) => b.typed > 0);
+  /** @type {Bomb | null} */
+  let advanced = null;
+  if (target) {
+    advanced = advanceBomb(layout, target, inputKey);
+    if (!advanced) {
+      // Wrong key: the target loses its progress and the lock is released.
+      const expected = nextKey(layout, target);
+      state.keystrokes = [...state.keystrokes, { t, key: inputKey, target: expected, hit: false }];
+      recordKey(state, expected, 'miss');
+      state.bombs = state.bombs.map((b) => (b.id === target.id ? { ...b, typed: 0, awaitingSince: t } : b));
+      breakStreak(state, WRONG_KEY_PENALTY);
+      state.events.push({ type: 'wrong-key' });
+      return;
+    }
+  } else {
+    // No target yet: lock onto the lowest bomb whose first part matches,
+    // passing over decoys unless nothing else fits.
+    const matches = state.bombs.flatMap((b) => advanceBomb(layout, b, inputKey) || []);
+    const preferred = matches.some((b) => b.kind !== 'decoy') ? matches.filter((b) => b.kind !== 'decoy') : matches;
+    advanced = lowestBomb(preferred);
+    if (!advanced) {
+      const lowest = lowestBomb(state.bombs);
+      const expected = lowest && nextKey(layout, lowest);
+      state.keystrokes = [...state.keystrokes, { t, key: inputKey, target: expected, hit: false }];
+      if (expected) recordKey(state, expected, 'miss');
+      breakStreak(state, WRONG_KEY_PENALTY);
+      state.events.push({ type: 'wrong-key' });
+      return;
+    }
+  }
+
+  const reactionMs = t - advanced.awaitingSince;
+  const hit = { ...advanced, awaitingSince: t };
+  state.keystrokes = [...state.keystrokes, { t, key: inputKey, target: inputKey, hit: true, reactionMs }];
+  recordKey(state, inputKey, reactionMs > SLOW_REACTION_MS ? 'slow' : 'fast');
+  state.combo += 1;
+  state.bestCombo = Math.max(state.bestCombo, state.combo);
+  if (hit.typed < hit.parts.length) {
+    state.bombs = state.bombs.map((b) => (b.id === hit.id ? hit : b));
+    return;
+  }
+  if (hit.armor > 0) {
+    // The armour takes the first full typing; the bomb has to be typed again.
+    state.bombs = state.bombs.map((b) => (b.id === hit.id ? { ...hit, typed: 0, armor: hit.armor - 1 } : b));
+    state.events.push({ type: 'armor-break', bomb: hit });
+    return;
+  }
+
+  state.bombs = state.bombs.filter((b) => b.id !== hit.id);
+  if (hit.kind === 'decoy') {
+    breakStreak(state, 0);
+    loseLives(state, 1);
+    state.events.push({ type: 'decoy', bomb: hit });
+    return;
+  }
+  defuseBomb(state, hit);
+  if (hit.kind === 'freeze') state.freezeTimer = FREEZE_MS;
+  if (hit.kind === 'heart') state.lives = Math.min(MAX_LIVES, state.lives + 1);
+  if (hit.kind === 'nuke') {
+    const caught = state.bombs.filter((b) => b.kind !== 'decoy');
+    state.bombs = [];
+    caught.forEach((b) => defuseBomb(state, b));
+  }
+};
+
+/**
+ * @param {GameState} state
+ * @param {Bomb} bomb
+ */
+const defuseBomb = (state, bomb) => {
+  const base = bomb.parts.length;
+  const height = Math.round(HEIGHT_BONUS * Math.max(0, 1 - bomb.y / GROUND_Y));
+  const points = Math.round((base + height) * comboMultiplier(state.combo));
+  state.score += points;
+  state.breakdown = {
+    ...state.breakdown,
+    base: state.breakdown.base + base,
+    height: state.breakdown.height + height,
+    combo: state.breakdown.combo + points - base - height
+  };
+  state.bombsCleared += 1;
+  state.events.push({ type: 'hit', bomb, points });
+  if (!state.config.adaptive && state.bombsCleared % BOMBS_TO_NEXT_LEVEL === 0 && state.difficultyIndex < difficulties.length - 1) {
+    state.difficultyIndex += 1;
+    state.events.push({ type: 'level-up', difficultyIndex: state.difficultyIndex });
+  }
+};
+
+/**
+ * @param {SpecialRates} rates
+ * @param {number} random
+ * @returns {BombKind}
+ */
+const pickBombKind = (rates, random) => {
+  let threshold = 0;
+  for (const kind of /** @type {(keyof SpecialRates)[]} */ (Object.keys(rates))) {
+    threshold += rates[kind];
+    if (random < threshold) return kind;
+  }
+  return 'normal';
+};
+
+/**
+ * @param {GameState} state
+ * @param {() => number} random
+ * @param {number} [count]
+ */
+const spawnBombs = (state, random, count = currentPace(state).count) => {
+  const { mode, pool, adaptive, clockStart } = state.config;
+  if (pool.length === 0) return;
+  const layout = layoutById(state.config.layout, mode);
+  /** @type {Bomb[]} */
+  const spawned = [];
+  const falling = state.config.sharedSpawns ? [] : state.bombs;
+  for (let i = 0; i < count; i++) {
+    const text = adaptive
+      ? pickWeighted(pool, (entry) => entryWeight(layout, entry, state.keyMemory, clockStart + state.time), random())
+      : pool[Math.floor(random() * pool.length)];
+    const segments = segmentsFor(mode, text);
+    // Keep longer words and sentences fully on screen.
+    const halfWidth = Math.min(CANVAS_WIDTH / 2, Math.max(BOMB_RADIUS, Array.from(text).length * 7));
+    let x = 0;
+    let overlapped = true;
+    for (let attempts = 0; overlapped && attempts < 50; attempts++) {
+      x = random() * (CANVAS_WIDTH - halfWidth * 2) + halfWidth;
+      overlapped = [...falling, ...spawned].some((b) =>
+        Math.hypot(x - b.x, b.y) < Math.max(BOMB_RADIUS * 2.5, halfWidth * 2));
+    }
+    const kind = state.config.specials ? pickBombKind(currentSpecials(state), random()) : 'normal';
+    if (!overlapped) {
+      spawned.push({
+        id: state.nextBombId++, text, parts: firstSpelling(segments), segments, typed: 0, x, y: 0, awaitingSince: state.time,
+        kind, armor: kind === 'armored' ? 1 : 0
+      });
+    }
+  }
+  state.bombs = [...state.bombs, ...spawned];
+  spawned.forEach((bomb) => state.events.push({ type: 'spawn', bomb }));
+};
+
+/** @param {GameState} state */
+const tuneAdaptivePace = (state) => {
+  const since = state.time - ADAPTIVE_WINDOW_MS;
+  const recent = state.keystrokes.filter((k) => k.t >= since);
+  const hits = recent.filter((k) => k.hit).length;
+  const attempts = recent.length + state.landed.filter((l) => l.t >= since).length;
+  if (attempts >= 3) state.tuning = tuneDifficulty(state.tuning, hits / attempts);
+};
+
+/**
+ * Advances the round by `dt` ms after applying the keys pressed since the
+ * previous step, in order.
+ * @param {GameState} prev
+ * @param {number} dt
+ * @param {string[]} keys
+ * @returns {GameState}
+ */
+export const stepGame = (prev, dt, keys) => {
+  /** @type {GameState} */
+  const state = { ...prev, events: [] };
+  if (state.gameOver) return state;
+  const random = () => {
+    const [value, next] = nextRandom(state.rng);
+    state.rng = next;
+    return value;
+  };
+
+  keys.forEach((key) => applyKey(state, key));
+
+  state.time += dt;
+  const fallPerMs = (100 / currentPace(state).speed) * (state.freezeTimer > 0 ? FREEZE_SLOWDOWN : 1);
+  state.freezeTimer = Math.max(0, state.freezeTimer - dt);
+  state.bombs = state.bombs.map((b) => ({ ...b, y: b.y + fallPerMs * dt }));
+
+  // Only plain and armored bombs cost a life; missed power-ups and decoys just vanish.
+  const landed = state.bombs.filter((b) => b.y >= GROUND_Y);
+  const harmful = landed.filter((b) => b.kind === 'normal' || b.kind === 'armored');
+  state.bombs = state.bombs.filter((b) => b.y < GROUND_Y);
+  if (harmful.length > 0) {
+    harmful.forEach((b) => {
+      const key = nextKey(layoutById(state.config.layout, state.config.mode), b);
+      state.landed = [...state.landed, { t: state.time, key }];
+      recordKey(state, key, 'miss');
+    });
+    loseLives(state, harmful.length);
+    state.events.push({ type: 'landed', count: harmful.length });
+  }
+
+  if (state.incoming > 0) {
+    spawnBombs(state, random, state.incoming);
+    state.incoming = 0;
+  }
+  state.spawnTimer -= dt;
+  while (state.spawnTimer <= 0) {
+    spawnBombs(state, random);
+    state.spawnTimer += currentPace(state).speed;
+  }
+
+  if (state.config.adaptive) {
+    state.tuneTimer -= dt;
+    if (state.tuneTimer <= 0) {
+      tuneAdaptivePace(state);
+      state.tuneTimer += ADAPTIVE_TUNE_INTERVAL_MS;
+    }
+  }
+
+  const challenge = challengeOf(state.config);
+  if (state.lives <= 0
+    || (challenge === 'sprint' && state.time >= SPRINT_MS)
+    || (challenge === 'clear' && state.bombsCleared >= CLEAR_TARGET)) {
+    state.gameOver = true;
+    state.events.push({ type: 'game-over' });
+  }
+  return state;
+};
+
+/**
+ * Ends a round on the player's request (Zen has no other way to finish).
+ * @param {GameState} prev
+ * @returns {GameState}
+ */
+export const finishRound = (prev) =>
+  prev.gameOver ? prev : { ...prev, gameOver: true, events: [{ type: 'game-over' }] };
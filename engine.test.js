@@ -0,0 +1,80 @@
+// Headless checks for the game engine: run `node --test` from the repository
+// root. Node loads engine.js as an ES module, just like the page does.
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createGameState, stepGame, layoutById, nextKey, STEP_MS } from "./engine.js";
+
+/** @typedef {import("./engine.js").GameConfig} GameConfig */
+/** @typedef {import("./engine.js").GameState} GameState */
+
+/** @type {GameConfig} */
+const WORDS = {
+  mode: 'en', pool: ["CAT", "DOG", "ZEBRA", "MOON", "A"], difficultyIndex: 3, adaptive: false,
+  seed: 20240601, clockStart: 0, specials: true
+};
+
+/** @type {GameConfig} */
+const HANZI = {
+  mode: 'zh', pool: ["貓", "大", "的", "好看", "山水"], difficultyIndex: 2, adaptive: true,
+  seed: 7, clockStart: 0, layout: 'eten', specials: true, tunedSpecials: true
+};
+
+// Plays up to `steps` steps like an imperfect player: every `every` steps it
+// presses the next key of the locked bomb (else the lowest non-decoy), and
+// now and then a wrong one. Returns the final state and each step's events.
+/**
+ * @param {GameConfig} config
+ * @param {number} steps
+ */
+const play = (config, steps, every = 9) => {
+  const layout = layoutById(config.layout, config.mode);
+  let state = createGameState(config, {});
+  /** @type {GameState["events"][]} */
+  const events = [];
+  for (let i = 0; i < steps && !state.gameOver; i++) {
+    const target = state.bombs.find((b) => b.typed > 0)
+      || state.bombs.filter((b) => b.kind !== 'decoy').sort((a, b) => b.y - a.y)[0];
+    const keys = i % 53 === 0 ? ["`"] : target && i % every === 0 ? [nextKey(layout, target)] : [];
+    state = stepGame(state, STEP_MS, keys);
+    events.push(state.events);
+  }
+  return { state, events };
+};
+
+test("the same seed and keys play the same game", () => {
+  for (const config of [WORDS, HANZI]) {
+    const first = play(config, 4000);
+    const second = play(config, 4000);
+    assert.ok(first.state.bombsCleared > 0 && first.state.keystrokes.some((k) => !k.hit));
+    assert.deepEqual(second, first);
+  }
+});
+
+test("a different seed plays a different game", () => {
+  const spawns = (/** @type {GameConfig} */ config) => play(config, 600).events.flat()
+    .flatMap((e) => (e.type === 'spawn' ? [[e.bomb.text, e.bomb.x, e.bomb.kind]] : []));
+  assert.notDeepEqual(spawns({ ...WORDS, seed: WORDS.seed + 1 }), spawns(WORDS));
+});
+
+test("players typing at different speeds get the same bombs", () => {
+  /** @type {GameConfig} */
+  const sprint = {
+    mode: 'en', pool: ["CAT", "DOG", "SUN", "MOON", "STAR", "FISH", "TREE", "BOOK", "APPLE", "ZEBRA"], difficultyIndex: 4, adaptive: false,
+    seed: 777, clockStart: 0, specials: true, sharedSpawns: true, challenge: 'sprint'
+  };
+  const spawns = (/** @type {number} */ every) => play(sprint, 1200, every).events.flat()
+    .flatMap((e) => (e.type === 'spawn' ? [[e.bomb.text, e.bomb.x, e.bomb.kind]] : []));
+  const fast = spawns(4);
+  const slow = spawns(6);
+  assert.ok(slow.length > 50);
+  assert.deepEqual(fast.slice(0, slow.length), slow);
+});
+
+test("stepGame leaves the previous state untouched", () => {
+  let state = createGameState(WORDS, {});
+  for (let i = 0; i < 300; i++) state = stepGame(state, STEP_MS, []);
+  const layout = layoutById(undefined, 'en');
+  const before = JSON.stringify(state);
+  stepGame(state, STEP_MS, [nextKey(layout, state.bombs[0]), "`"]);
+  assert.equal(JSON.stringify(state), before);
+});
@@ -1,12 +1,24 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
+import catalogs from './locales/index.js';
+import en from './locales/en.js';
+import {
+  PHYSICAL_ROWS, KEYBOARD_LAYOUTS, DEFAULT_LAYOUTS, layoutById, CHAR_SETS, ZHUYIN_SYMBOLS, HANZI_READINGS,
+  keyForPart, openParts, nextKey, difficulties, SPRINT_MS, CLEAR_TARGET, CHALLENGES,
+  ADAPTIVE_START, CANVAS_WIDTH, CANVAS_HEIGHT, BOMB_RADIUS, STEP_MS, STARTING_LIVES, COMBO_TIERS, comboMultiplier,
+  gradeRound, BOMBS_TO_NEXT_LEVEL, isGameConfig, createGameState, challengeOf, stepGame, finishRound
+} from './engine.js';
+import type {
+  KeyboardLayout, Bomb, BombKind, Challenge, KeyMemory, AdaptiveTuning, ScoreBreakdown, GameConfig,
+  GameEvent, GameState, KeystrokeRecord, LandedRecord
+} from './engine.js';
 
 // --- Component Definitions ---
 
 const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ children, className, ...props }) => {
   return (
     <button
-      className={`font-bold py-2 px-4 rounded-lg text-white transition-all duration-300 ease-in-out transform hover:scale-105 ${className}`}
+      className={`font-bold py-2 px-4 rounded-lg text-white transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus-visible:ring-4 focus-visible:ring-yellow-400 ${className}`}
       {...props}
     >
       {children}
@@ -18,494 +30,4294 @@ interface FloatingTextProps {
   x: number;
   y: number;
   value: string | number;
+  // Tailwind text colour class.
+  color?: string;
   onDisappear: () => void;
 }
 
-const FloatingText: React.FC<FloatingTextProps> = ({ x, y, value, onDisappear }) => {
+const FloatingText: React.FC<FloatingTextProps> = ({ x, y, value, color = "text-green-400", onDisappear }) => {
+  // The parent re-renders on every hit with a fresh callback; keep the
+  // timer from restarting each time.
+  const onDisappearRef = useRef(onDisappear);
+  onDisappearRef.current = onDisappear;
+
   useEffect(() => {
     const timer = setTimeout(() => {
-      onDisappear();
+      onDisappearRef.current();
     }, 1000); // Corresponds to animation duration
 
     return () => clearTimeout(timer);
-  }, [onDisappear]);
+  }, []);
+
+  return (
+    <div
+      className={`absolute ${color} font-bold text-2xl pointer-events-none animate-float-up`}
+      style={{ left: `${x}px`, top: `${y}px`, transform: 'translateX(-50%)' }}
+    >
+      {value}
+    </div>
+  );
+};
+
+
+// --- Keyboard Component ---
+
+const PUNCTUATION_CODES: { [code: string]: string } = {
+  Backquote: '`', Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']', Semicolon: ';',
+  Quote: "'", Comma: ',', Period: '.', Slash: '/', Space: ' '
+};
+
+// Physical key for a `KeyboardEvent.code`, or undefined for keys the game doesn't use.
+const physicalKey = (code: string): string | undefined => {
+  const match = /^(?:Key|Digit)([A-Z0-9])$/.exec(code);
+  return match ? match[1] : PUNCTUATION_CODES[code];
+};
+
+// Physical key a keydown is matched on, so the OS layout and IME state don't
+// matter. Events without a code (synthetic ones, some on-screen keyboards)
+// fall back to `key`.
+const eventKey = (e: KeyboardEvent) =>
+  e.code ? physicalKey(e.code) : e.key.length === 1 ? e.key.toUpperCase() : undefined;
+
+const LAYOUTS_STORAGE_KEY = "keyboard_layouts";
+
+interface KeyboardProps {
+    // Physical keys to highlight.
+    activeKeys: Set<string>;
+    layout: KeyboardLayout;
+    // Optional 0–1 weakness per physical key, drawn as a red overlay.
+    heatmap?: { [key: string]: number };
+    // Colour keys by the finger that presses them.
+    coaching?: boolean;
+    t: Translate;
+}
+
+const Keyboard: React.FC<KeyboardProps> = ({ activeKeys, layout, heatmap, coaching, t }) => {
+    return (
+        <div className="keyboard">
+            {PHYSICAL_ROWS.map((row, rowIndex) => (
+                <div key={rowIndex} className="keyboard-row">
+                    {Array.from(row).map((key) => {
+                        const isActive = activeKeys.has(key);
+                        const heat = heatmap?.[key];
+                        const legend = layout.legend[key];
+                        // The theme decides how the finger colour is drawn (see index.css).
+                        const coached = coaching && !isActive && heat === undefined;
+
+                        return (
+                            <div
+                                key={key}
+                                className={`keyboard-key ${key === ' ' ? 'space' : ''} ${ANCHOR_KEYS.includes(key) ? 'anchor' : ''} ${isActive ? 'highlight' : ''} ${coached ? 'coached' : ''} ${coached && HOME_ROW_KEYS.includes(key) ? 'home-row' : ''}`}
+                                style={heat !== undefined ? { backgroundColor: `rgba(var(--heat-rgb), ${0.15 + heat * 0.85})` }
+                                    : coached ? { '--finger-color': FINGER_COLORS[FINGER_OF[key]] } as React.CSSProperties
+                                    : undefined}
+                                title={heat !== undefined ? t("stats.missedPercent", { percent: Math.round(heat * 100) }) : undefined}
+                            >
+                                {layout.mode === 'zh' && key !== ' ' && <span className="zh-char">{legend}</span>}
+                                <span className="en-char">{key === ' ' ? t("keyboard.space") : layout.mode === 'zh' ? key : legend}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// --- Finger Guidance ---
+
+type Finger = 'left-pinky' | 'left-ring' | 'left-middle' | 'left-index' | 'thumb' | 'right-index' | 'right-middle' | 'right-ring' | 'right-pinky';
+
+// Touch-typing finger for each physical key; the columns are the same on every layout.
+const FINGER_KEYS: { [finger in Finger]: string } = {
+  'left-pinky': "`1QAZ",
+  'left-ring': "2WSX",
+  'left-middle': "3EDC",
+  'left-index': "45RTFGVB",
+  'thumb': " ",
+  'right-index': "67YUHJNM",
+  'right-middle': "8IK,",
+  'right-ring': "9OL.",
+  'right-pinky': "0-=P[];'/"
+};
+
+const FINGER_OF: { [key: string]: Finger } = {};
+(Object.keys(FINGER_KEYS) as Finger[]).forEach((finger) => {
+  Array.from(FINGER_KEYS[finger]).forEach((key) => { FINGER_OF[key] = finger; });
+});
+
+// The same finger on either hand shares a colour.
+const FINGER_COLORS: { [finger in Finger]: string } = {
+  'left-pinky': "#fecaca", 'left-ring': "#fed7aa", 'left-middle': "#fef08a", 'left-index': "#bbf7d0",
+  'thumb': "#e5e7eb",
+  'right-index': "#bfdbfe", 'right-middle': "#fef08a", 'right-ring': "#fed7aa", 'right-pinky': "#fecaca"
+};
+
+const HOME_ROW_KEYS = "ASDFJKL;";
+// The keys with tactile bumps that fingers find without looking.
+const ANCHOR_KEYS = "FJ";
+
+// Home-row course: each lesson adds a row of the keyboard (indexes into PHYSICAL_ROWS).
+// The names are saved with each session; lessonName translates them.
+const ROW_LESSONS = [
+  { name: "Home Row", rows: [2] },
+  { name: "Home + Top Row", rows: [1, 2] },
+  { name: "Home, Top + Bottom Rows", rows: [1, 2, 3] },
+  { name: "All Rows", rows: [0, 1, 2, 3] }
+];
+
+// A round that clears this many bombs at this accuracy unlocks the next lesson.
+const ROW_LESSON_PASS = { bombs: 30, accuracy: 0.9 };
+const COACHING_STORAGE_KEY = "finger_guidance";
+
+// The letters and digits (or Zhuyin symbols) printed on the given keys.
+const drillableLegends = (layout: KeyboardLayout, keys: string[]) =>
+  keys.map((key) => layout.legend[key])
+    .filter((symbol) => (layout.mode === 'zh' ? ZHUYIN_SYMBOLS.has(symbol) : CHAR_SETS.en.includes(symbol)));
+
+// Characters drilled by a row lesson on the given layout.
+const rowLessonPool = (layout: KeyboardLayout, lesson: number) =>
+  drillableLegends(layout, ROW_LESSONS[lesson].rows.flatMap((r) => Array.from(PHYSICAL_ROWS[r])));
+
+interface HandDiagramProps {
+  finger: Finger | null;
+  // Legend of the key to press, for the caption.
+  label: string;
+  t: Translate;
+}
+
+const HAND_FINGERS: { finger: Finger; height: string }[][] = [
+  [
+    { finger: 'left-pinky', height: "h-10" }, { finger: 'left-ring', height: "h-14" },
+    { finger: 'left-middle', height: "h-16" }, { finger: 'left-index', height: "h-14" }, { finger: 'thumb', height: "h-8" }
+  ],
+  [
+    { finger: 'thumb', height: "h-8" }, { finger: 'right-index', height: "h-14" },
+    { finger: 'right-middle', height: "h-16" }, { finger: 'right-ring', height: "h-14" }, { finger: 'right-pinky', height: "h-10" }
+  ]
+];
+
+const HandDiagram: React.FC<HandDiagramProps> = ({ finger, label, t }) => (
+  <div className="flex flex-col items-center mt-4">
+    <div className="flex space-x-12">
+      {HAND_FINGERS.map((hand, h) => (
+        <div key={h} className="flex items-end space-x-1">
+          {hand.map(({ finger: f, height }) => (
+            <div
+              key={f}
+              className={`w-5 ${height} rounded-t-full border border-gray-400 ${finger === f ? 'ring-4 ring-yellow-400 animate-pulse' : 'opacity-60'}`}
+              style={{ backgroundColor: FINGER_COLORS[f] }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+    <p className="mt-2 text-lg text-gray-700 h-7">
+      {finger && t("finger.hint", { finger: t(`finger.${finger}`), key: label })}
+    </p>
+  </div>
+);
+
+// --- Game Constants ---
+
+// Word drills. Zhuyin syllables always end in their tone mark, with 'ˉ' standing
+// in for the unmarked first tone (typed with the space bar, as in a real IME).
+const WORD_SETS = {
+  en: [
+    "CAT", "DOG", "SUN", "MOON", "STAR", "FISH", "BIRD", "TREE", "BOOK", "BALL",
+    "CAKE", "MILK", "RAIN", "SNOW", "BLUE", "RED", "GREEN", "APPLE", "HOUSE", "WATER",
+    "HAPPY", "LIGHT", "MUSIC", "PLANT", "ROBOT", "TIGER", "ZEBRA", "PIZZA", "SCHOOL", "FRIEND"
+  ],
+  zh: [
+    "ㄇㄚˉ", "ㄇㄚˊ", "ㄇㄚˇ", "ㄇㄚˋ", "ㄅㄚˉ", "ㄅㄚˋ", "ㄇㄠˉ", "ㄍㄡˇ", "ㄩˊ", "ㄋㄧㄡˊ",
+    "ㄧㄤˊ", "ㄏㄨㄚˉ", "ㄕㄨˋ", "ㄕㄢˉ", "ㄕㄨㄟˇ", "ㄏㄨㄛˇ", "ㄖˋ", "ㄩㄝˋ", "ㄊㄧㄢˉ", "ㄉㄧˋ",
+    "ㄖㄣˊ", "ㄉㄚˋ", "ㄒㄧㄠˇ", "ㄕㄤˋ", "ㄒㄧㄚˋ", "ㄓㄨㄥˉ", "ㄏㄠˇ", "ㄒㄩㄝˊ", "ㄕㄨˉ", "ㄅㄧˇ",
+    "ㄔˉ", "ㄏㄜˉ", "ㄌㄞˊ", "ㄑㄩˋ", "ㄎㄢˋ", "ㄊㄧㄥˉ", "ㄕㄨㄛˉ", "ㄗㄡˇ", "ㄆㄠˇ", "ㄉㄜ˙"
+  ]
+};
+
+type Drill = 'chars' | 'words' | 'hanzi';
+
+// Drill lesson names as saved with each session; lessonName translates them.
+const DRILL_LESSONS: { [mode: string]: { [drill in Drill]?: string } } = {
+  en: { chars: "Letters", words: "Words" },
+  zh: { chars: "Symbols", words: "Syllables", hanzi: "漢字" }
+};
+
+// --- Leaderboard Storage ---
+
+// Every score lives in one versioned list; a board is the set of entries
+// sharing a challenge, mode, difficulty and lesson (`drill:<id>` or `pack:<id>`).
+// `date` is an ISO timestamp, or "" for migrated scores whose date was unreadable.
+// Entries saved before challenges existed have no `challenge` and count as survival.
+type LeaderboardEntry = {
+  name: string;
+  score: number;
+  mode: 'en' | 'zh';
+  difficulty: string;
+  lesson: string;
+  lessonName: string;
+  accuracy: number | null;
+  kpm: number | null;
+  durationMs: number | null;
+  date: string;
+  challenge?: Challenge;
+};
+type LeaderboardStore = { version: number; entries: LeaderboardEntry[] };
+type LeaderboardRange = 'today' | 'week' | 'all';
+
+const LEADERBOARD_STORAGE_KEY = "leaderboard";
+const LEADERBOARD_VERSION = 2;
+const LEADERBOARD_SIZE = 10;
+// Each board keeps more than it shows so the today/this-week views have depth.
+const LEADERBOARD_KEEP_PER_BOARD = 50;
+const LEGACY_BOARD = "legacy";
+
+const boardKey = (e: Pick<LeaderboardEntry, 'mode' | 'difficulty' | 'lesson' | 'challenge'>) =>
+  `${e.challenge || 'survival'}|${e.mode}|${e.difficulty}|${e.lesson}`;
+
+// Clear-N boards rank the fastest finish; all others the highest score.
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  a.challenge === 'clear' ? (a.durationMs ?? Infinity) - (b.durationMs ?? Infinity) : b.score - a.score;
+
+// Version 1 kept a top-10 per mode under `leaderboard_en`/`leaderboard_zh`
+// with locale-formatted dates and no difficulty or lesson.
+const migrateLegacyLeaderboards = (): LeaderboardEntry[] =>
+  (['en', 'zh'] as const).flatMap((mode) => {
+    const raw = localStorage.getItem(`leaderboard_${mode}`);
+    if (!raw) return [];
+    const legacy: { name: string; score: number; date: string }[] = JSON.parse(raw);
+    return legacy.map((old) => {
+      const parsed = new Date(old.date);
+      return {
+        name: old.name,
+        score: old.score,
+        mode,
+        difficulty: LEGACY_BOARD,
+        lesson: LEGACY_BOARD,
+        lessonName: "Earlier scores",
+        accuracy: null,
+        kpm: null,
+        durationMs: null,
+        date: isNaN(parsed.getTime()) ? "" : parsed.toISOString()
+      };
+    });
+  });
+
+const saveLeaderboardStore = (store: LeaderboardStore) =>
+  localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(store));
+
+// Loads (and if needed migrates) the store. Unreadable data is set aside
+// under a backup key instead of being deleted.
+const loadLeaderboardStore = (): LeaderboardStore => {
+  const raw = localStorage.getItem(LEADERBOARD_STORAGE_KEY);
+  try {
+    if (raw) {
+      const store: LeaderboardStore = JSON.parse(raw);
+      if (store.version === LEADERBOARD_VERSION && Array.isArray(store.entries)) return store;
+      throw new Error(`Unsupported leaderboard version ${store.version}`);
+    }
+    const store = { version: LEADERBOARD_VERSION, entries: migrateLegacyLeaderboards() };
+    saveLeaderboardStore(store);
+    localStorage.removeItem("leaderboard_en");
+    localStorage.removeItem("leaderboard_zh");
+    return store;
+  } catch (e) {
+    console.error("Failed to load leaderboards from localStorage; keeping a backup", e);
+    const backupKey = `${LEADERBOARD_STORAGE_KEY}_backup_${Date.now()}`;
+    if (raw) localStorage.setItem(backupKey, raw);
+    ['en', 'zh'].forEach((mode) => {
+      const legacy = localStorage.getItem(`leaderboard_${mode}`);
+      if (legacy) localStorage.setItem(`${backupKey}_${mode}`, legacy);
+    });
+    return { version: LEADERBOARD_VERSION, entries: [] };
+  }
+};
+
+const addLeaderboardEntry = (store: LeaderboardStore, entry: LeaderboardEntry): LeaderboardStore => {
+  const key = boardKey(entry);
+  const board = [...store.entries.filter((e) => boardKey(e) === key), entry]
+    .sort(compareEntries)
+    .slice(0, LEADERBOARD_KEEP_PER_BOARD);
+  return { ...store, entries: [...store.entries.filter((e) => boardKey(e) !== key), ...board] };
+};
+
+const rangeStart = (range: LeaderboardRange, now = new Date()) => {
+  if (range === 'all') return null;
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (range === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7)); // back to Monday
+  return start;
+};
+
+type LeaderboardFilter = { challenge: Challenge; mode: 'en' | 'zh'; difficulty: string; lesson: string; range: LeaderboardRange };
+
+const filterLeaderboard = (entries: LeaderboardEntry[], filter: LeaderboardFilter) => {
+  const start = rangeStart(filter.range);
+  return entries
+    .filter((e) => (e.challenge || 'survival') === filter.challenge
+      && e.mode === filter.mode
+      && (filter.difficulty === 'all' || e.difficulty === filter.difficulty)
+      && (filter.lesson === 'all' || e.lesson === filter.lesson)
+      && (!start || (e.date !== "" && new Date(e.date) >= start)))
+    .sort(compareEntries)
+    .slice(0, LEADERBOARD_SIZE);
+};
+
+// --- Lesson Packs ---
+
+type LessonPack = { id: string; name: string; mode: 'en' | 'zh'; entries: string[] };
+// `message` is a catalog key, translated when the error is shown. Errors in a
+// JSON file name the entry and, for a file of several packs, the pack.
+type PackError = { line: number; message: MessageKey; params?: MessageParams; entry?: number; pack?: number };
+
+const PACKS_STORAGE_KEY = "lesson_packs";
+
+// Checks raw pack lines and returns the cleaned entries along with one error
+// per offending line. `firstLine` is the file line number of `lines[0]`.
+const validateEntries = (mode: 'en' | 'zh', lines: string[], firstLine = 1): { entries: string[]; errors: PackError[] } => {
+  const entries: string[] = [];
+  const errors: PackError[] = [];
+  lines.forEach((raw, i) => {
+    const line = i + firstLine;
+    const entry = mode === 'en' ? raw.trim().toUpperCase() : raw.trim();
+    if (!entry) {
+      errors.push({ line, message: "packs.error.empty" });
+      return;
+    }
+    const chars = Array.from(entry);
+    if (mode === 'en') {
+      const bad = chars.find((c) => c < ' ' || c > '~');
+      if (bad) {
+        errors.push({ line, message: "packs.error.unsupported", params: { char: bad } });
+        return;
+      }
+    } else {
+      const isZhuyin = (c: string) => ZHUYIN_SYMBOLS.has(c) || /\s/.test(c);
+      const bad = chars.find((c) => !isZhuyin(c) && !HANZI_READINGS[c]);
+      if (bad) {
+        errors.push({ line, message: "packs.error.unknownZhuyin", params: { char: bad } });
+        return;
+      }
+      if (chars.some(isZhuyin) && !chars.every(isZhuyin)) {
+        errors.push({ line, message: "packs.error.mixed" });
+        return;
+      }
+    }
+    entries.push(entry);
+  });
+  if (lines.length === 0) errors.push({ line: firstLine, message: "packs.error.noEntries" });
+  return { entries, errors };
+};
+
+const splitLines = (text: string) => {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  while (lines.length > 0 && lines[lines.length - 1].trim() === "") lines.pop();
+  return lines;
+};
+
+// First field of a CSV row, honouring double-quoted fields.
+const firstCsvField = (row: string) => {
+  const match = row.match(/^\s*"((?:[^"]|"")*)"/);
+  return match ? match[1].replace(/""/g, '"') : row.split(",")[0];
+};
+
+const csvQuote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const guessPackMode = (lines: string[]): 'en' | 'zh' =>
+  lines.some((l) => /[^\x00-\x7f]/.test(l)) ? 'zh' : 'en';
+
+// Parses an imported file. JSON files hold `{ name, mode, entries }` or an
+// array of them; .csv and .txt files hold one entry per line (first column).
+const parsePackFile = (fileName: string, text: string): { packs: LessonPack[]; errors: PackError[] } => {
+  const baseName = fileName.replace(/\.[^.]+$/, "");
+  const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+  if (/\.json$/i.test(fileName)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      return { packs: [], errors: [{ line: 1, message: "packs.error.invalidJson" }] };
+    }
+    const packs: LessonPack[] = [];
+    const errors: PackError[] = [];
+    (Array.isArray(data) ? data : [data]).forEach((raw: unknown, i) => {
+      const packNumber = Array.isArray(data) ? i + 1 : undefined;
+      const pack: { name?: unknown; mode?: unknown; entries?: unknown } = typeof raw === "object" && raw !== null ? raw : {};
+      const { mode, entries } = pack;
+      if (!Array.isArray(entries) || (mode !== 'en' && mode !== 'zh')) {
+        errors.push({ line: i + 1, message: "packs.error.shape", pack: packNumber });
+        return;
+      }
+      const result = validateEntries(mode, entries.map((e: unknown) => (typeof e === "string" ? e : "")));
+      result.errors.forEach((err) => errors.push({ ...err, entry: err.line, pack: packNumber }));
+      packs.push({ id: newId(), name: String(pack.name || baseName), mode, entries: result.entries });
+    });
+    return { packs, errors };
+  }
+
+  let lines = splitLines(text);
+  let firstLine = 1;
+  if (/\.csv$/i.test(fileName)) {
+    lines = lines.map(firstCsvField);
+    if (lines[0]?.trim().toLowerCase() === "entry") {
+      lines = lines.slice(1);
+      firstLine = 2;
+    }
+  }
+  const mode = guessPackMode(lines);
+  const { entries, errors } = validateEntries(mode, lines, firstLine);
+  return { packs: [{ id: newId(), name: baseName, mode, entries }], errors };
+};
+
+const packErrorText = (t: Translate, err: PackError) => {
+  let text = t(err.message, err.params);
+  if (err.entry !== undefined) text = t("packs.error.inEntry", { entry: err.entry, message: text });
+  if (err.pack !== undefined) text = t("packs.error.inPack", { pack: err.pack, message: text });
+  return err.line > 0 ? t("packs.error.atLine", { line: err.line, message: text }) : text;
+};
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportPack = (pack: LessonPack, format: 'json' | 'csv' | 'txt') => {
+  const safeName = pack.name.replace(/[\\/:*?"<>|]/g, "_") || "lesson";
+  if (format === 'json') {
+    downloadFile(`${safeName}.json`, JSON.stringify({ name: pack.name, mode: pack.mode, entries: pack.entries }, null, 2), "application/json");
+  } else if (format === 'csv') {
+    downloadFile(`${safeName}.csv`, ["entry", ...pack.entries.map(csvQuote)].join("\n"), "text/csv");
+  } else {
+    downloadFile(`${safeName}.txt`, pack.entries.join("\n"), "text/plain");
+  }
+};
+
+interface LessonManagerProps {
+  packs: LessonPack[];
+  i18n: I18n;
+  onChange: (packs: LessonPack[]) => void;
+  onClose: () => void;
+}
+
+const LessonManager: React.FC<LessonManagerProps> = ({ packs, i18n, onChange, onClose }) => {
+  const { t } = i18n;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [packMode, setPackMode] = useState<'en' | 'zh'>('en');
+  const [entriesText, setEntriesText] = useState("");
+  const [errors, setErrors] = useState<PackError[]>([]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setPackMode('en');
+    setEntriesText("");
+    setErrors([]);
+  };
+
+  const editPack = (pack: LessonPack) => {
+    setEditingId(pack.id);
+    setName(pack.name);
+    setPackMode(pack.mode);
+    setEntriesText(pack.entries.join("\n"));
+    setErrors([]);
+  };
+
+  const savePack = () => {
+    const result = validateEntries(packMode, splitLines(entriesText));
+    const nameErrors: PackError[] = name.trim() ? [] : [{ line: 0, message: "packs.error.nameRequired" }];
+    if (result.errors.length > 0 || nameErrors.length > 0) {
+      setErrors([...nameErrors, ...result.errors]);
+      return;
+    }
+    const pack = { id: editingId || `${Date.now().toString(36)}`, name: name.trim(), mode: packMode, entries: result.entries };
+    onChange(editingId ? packs.map((p) => (p.id === editingId ? pack : p)) : [...packs, pack]);
+    resetForm();
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const result = parsePackFile(file.name, await file.text());
+    if (result.errors.length > 0) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors([]);
+    onChange([...packs, ...result.packs]);
+  };
+
+  return (
+    <div className="p-4 w-full max-w-2xl flex flex-col items-center">
+      <h1 className="text-4xl font-extrabold text-blue-700 mb-6">{t("packs.title")}</h1>
+
+      {packs.length === 0 ? (
+        <p className="text-xl text-gray-600 mb-6">{t("packs.empty")}</p>
+      ) : (
+        <ul className="w-full mb-6 bg-white p-4 rounded-xl shadow-lg border border-gray-200">
+          {packs.map((pack) => (
+            <li key={pack.id} className="flex justify-between items-center border-b py-2 last:border-b-0">
+              <span className="text-gray-800">
+                <span className="font-semibold">{pack.name}</span>
+                <span className="text-sm text-gray-500 ml-2">{t("packs.summary", { mode: t(`mode.${pack.mode}`), count: pack.entries.length })}</span>
+              </span>
+              <span className="space-x-2">
+                <Button className="text-sm bg-blue-500 hover:bg-blue-600" onClick={() => editPack(pack)}>{t("packs.edit")}</Button>
+                <Button className="text-sm bg-gray-600 hover:bg-gray-700" onClick={() => exportPack(pack, 'json')}>JSON</Button>
+                <Button className="text-sm bg-gray-600 hover:bg-gray-700" onClick={() => exportPack(pack, 'csv')}>CSV</Button>
+                <Button className="text-sm bg-gray-600 hover:bg-gray-700" onClick={() => exportPack(pack, 'txt')}>TXT</Button>
+                <Button className="text-sm bg-red-500 hover:bg-red-600" onClick={() => onChange(packs.filter((p) => p.id !== pack.id))}>{t("packs.delete")}</Button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="w-full bg-white p-4 rounded-xl shadow-lg border border-gray-200 mb-6">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800">{editingId ? t("packs.editTitle") : t("packs.newTitle")}</h2>
+        <div className="flex space-x-4 mb-4">
+          <input
+            className="flex-1 border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("packs.namePlaceholder")}
+          />
+          <select
+            className="border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={packMode}
+            onChange={(e) => setPackMode(e.target.value as 'en' | 'zh')}
+          >
+            <option value="en">{t("mode.en")}</option>
+            <option value="zh">{t("mode.zh")}</option>
+          </select>
+        </div>
+        <textarea
+          className="w-full h-40 border border-gray-400 p-2 rounded-lg text-gray-800 font-mono"
+          value={entriesText}
+          onChange={(e) => setEntriesText(e.target.value)}
+          placeholder={t("packs.entriesPlaceholder")}
+        />
+        <div className="flex justify-between items-center mt-4">
+          <label className="cursor-pointer text-blue-700 font-semibold">
+            {t("packs.import")}
+            <input type="file" accept=".json,.csv,.txt" className="hidden" onChange={importFile} />
+          </label>
+          <span className="space-x-2">
+            {editingId && <Button className="bg-gray-500 hover:bg-gray-600" onClick={resetForm}>{t("common.cancel")}</Button>}
+            <Button className="bg-green-500 hover:bg-green-600" onClick={savePack}>{t("packs.save")}</Button>
+          </span>
+        </div>
+        {errors.length > 0 && (
+          <ul className="mt-4 text-left text-red-600">
+            {errors.map((err, i) => (
+              <li key={i}>{packErrorText(t, err)}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <Button className="px-10 py-4 text-xl bg-blue-600 hover:bg-blue-700 shadow-lg" onClick={onClose}>{t("common.back")}</Button>
+    </div>
+  );
+};
+
+// --- Session Analytics ---
+
+type KeyStat = { hits: number; misses: number; reactionMs: number };
+type SessionSummary = {
+  date: string;
+  mode: 'en' | 'zh';
+  lesson: string;
+  difficulty: string;
+  score: number;
+  durationMs: number;
+  accuracy: number;
+  kpm: number;
+  // Keyed by physical key.
+  keys: { [key: string]: KeyStat };
+  layout?: string;
+  challenge?: Challenge;
+};
+
+const HISTORY_STORAGE_KEY = "player_history";
+const MAX_HISTORY_PER_PLAYER = 50;
+
+const isKeyStat = (value: unknown): value is KeyStat => {
+  if (typeof value !== "object" || value === null) return false;
+  const stat = value as { [field: string]: unknown };
+  return typeof stat.hits === "number" && typeof stat.misses === "number" && typeof stat.reactionMs === "number";
+};
+
+// Checks a round summary that came from outside this browser (a synced class
+// report or an imported profile) before the analytics add it up.
+const isSessionSummary = (value: unknown): value is SessionSummary => {
+  if (typeof value !== "object" || value === null) return false;
+  const data = value as { [field: string]: unknown };
+  return typeof data.date === "string" && (data.mode === 'en' || data.mode === 'zh')
+    && typeof data.lesson === "string" && typeof data.difficulty === "string"
+    && typeof data.score === "number" && typeof data.durationMs === "number"
+    && typeof data.accuracy === "number" && typeof data.kpm === "number"
+    && typeof data.keys === "object" && data.keys !== null && Object.values(data.keys).every(isKeyStat)
+    && (data.layout === undefined || typeof data.layout === "string")
+    && (data.challenge === undefined || (Object.keys(CHALLENGES) as unknown[]).includes(data.challenge));
+};
+
+// Folds a round's keystrokes and landed bombs (by the key they were waiting
+// on) into per-key totals plus overall accuracy and correct keys per minute.
+const summarizeSession = (
+  keystrokes: KeystrokeRecord[],
+  landed: LandedRecord[],
+  durationMs: number
+): Pick<SessionSummary, 'accuracy' | 'kpm' | 'keys'> => {
+  const keys: { [key: string]: KeyStat } = {};
+  const statFor = (key: string) => (keys[key] = keys[key] || { hits: 0, misses: 0, reactionMs: 0 });
+  let hits = 0;
+  keystrokes.forEach((k) => {
+    if (k.hit) {
+      hits++;
+      const stat = statFor(k.key);
+      stat.hits++;
+      stat.reactionMs += k.reactionMs || 0;
+    } else if (k.target) {
+      statFor(k.target).misses++;
+    }
+  });
+  landed.forEach(({ key }) => statFor(key).misses++);
+  return {
+    accuracy: keystrokes.length > 0 ? hits / keystrokes.length : 0,
+    kpm: durationMs > 0 ? hits / (durationMs / 60000) : 0,
+    keys
+  };
+};
+
+const slowestKeys = (keys: { [key: string]: KeyStat }, limit = 5) =>
+  Object.entries(keys)
+    .filter(([, stat]) => stat.hits > 0)
+    .map(([key, stat]) => ({ key, avgMs: stat.reactionMs / stat.hits }))
+    .sort((a, b) => b.avgMs - a.avgMs)
+    .slice(0, limit);
+
+const mostMissedKeys = (keys: { [key: string]: KeyStat }, limit = 5) =>
+  Object.entries(keys)
+    .filter(([, stat]) => stat.misses > 0)
+    .map(([key, stat]) => ({ key, misses: stat.misses }))
+    .sort((a, b) => b.misses - a.misses)
+    .slice(0, limit);
+
+// Miss rate per key in [0, 1], for the keyboard heatmap.
+const missRates = (keys: { [key: string]: KeyStat }) => {
+  const rates: { [key: string]: number } = {};
+  Object.entries(keys).forEach(([key, stat]) => {
+    rates[key] = stat.misses / (stat.hits + stat.misses);
+  });
+  return rates;
+};
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const keyLabel = (t: Translate, key: string, layout: KeyboardLayout) => (key === ' ' ? t("keyboard.space") : layout.legend[key] || key);
+
+interface SessionStatsProps {
+  summary: SessionSummary;
+  history: SessionSummary[];
+  player: string;
+  i18n: I18n;
+  onContinue: () => void;
+  // Extra actions shown beside "View Leaderboard".
+  children?: React.ReactNode;
+}
+
+const SessionStats: React.FC<SessionStatsProps> = ({ summary, history, player, i18n, onContinue, children }) => {
+  const { t } = i18n;
+  const layout = layoutById(summary.layout, summary.mode);
+  const slowest = slowestKeys(summary.keys);
+  const missed = mostMissedKeys(summary.keys);
+  return (
+    <div className="p-4 w-full max-w-3xl flex flex-col items-center">
+      <h1 className="text-4xl font-extrabold text-blue-700 mb-6">{t("stats.title")}</h1>
+      <div className="grid grid-cols-3 gap-4 w-full mb-6 text-center">
+        <div className="bg-white p-4 rounded-xl shadow border border-gray-200">
+          <div className="text-sm text-gray-500">{t("stats.accuracy")}</div>
+          <div className="text-3xl font-extrabold text-green-700">{Math.round(summary.accuracy * 100)}%</div>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow border border-gray-200">
+          <div className="text-sm text-gray-500">{t("stats.kpm")}</div>
+          <div className="text-3xl font-extrabold text-blue-700">{Math.round(summary.kpm)}</div>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow border border-gray-200">
+          <div className="text-sm text-gray-500">{t("stats.duration")}</div>
+          <div className="text-3xl font-extrabold text-gray-700">{Math.round(summary.durationMs / 1000)}s</div>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4 w-full mb-6">
+        <div className="bg-white p-4 rounded-xl shadow border border-gray-200">
+          <h2 className="text-xl font-bold mb-2 text-gray-800">{t("stats.slowest")}</h2>
+          {slowest.length === 0 ? <p className="text-gray-500">{t("stats.noHits")}</p> : (
+            <ol className="list-decimal list-inside">
+              {slowest.map(({ key, avgMs }) => (
+                <li key={key}><span className="font-mono font-bold">{keyLabel(t, key, layout)}</span> — {(avgMs / 1000).toFixed(2)}s</li>
+              ))}
+            </ol>
+          )}
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow border border-gray-200">
+          <h2 className="text-xl font-bold mb-2 text-gray-800">{t("stats.mostMissed")}</h2>
+          {missed.length === 0 ? <p className="text-gray-500">{t("stats.noMisses")}</p> : (
+            <ol className="list-decimal list-inside">
+              {missed.map(({ key, misses }) => (
+                <li key={key}><span className="font-mono font-bold">{keyLabel(t, key, layout)}</span> — {t("stats.missed", { count: misses })}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+      <h2 className="text-xl font-bold text-gray-800">{t("stats.heatmap")}</h2>
+      <Keyboard activeKeys={new Set()} layout={layout} heatmap={missRates(summary.keys)} t={t} />
+      {history.length > 1 && (
+        <div className="w-full mt-6 bg-white p-4 rounded-xl shadow border border-gray-200">
+          <h2 className="text-xl font-bold mb-2 text-gray-800">{t("stats.history", { player })}</h2>
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-gray-500 text-sm"><th>{t("stats.date")}</th><th>{t("stats.lesson")}</th><th>{t("stats.score")}</th><th>{t("stats.accuracy")}</th><th>{t("stats.kpmShort")}</th></tr>
+            </thead>
+            <tbody>
+              {history.slice(-10).reverse().map((session, i) => (
+                <tr key={i} className="border-t">
+                  <td>{i18n.formatDate(session.date)}</td>
+                  <td>{lessonName(t, session.lesson)}</td>
+                  <td>{session.score}</td>
+                  <td>{Math.round(session.accuracy * 100)}%</td>
+                  <td>{Math.round(session.kpm)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="mt-8 flex space-x-4">
+        {children}
+        <Button className="px-10 py-4 text-xl bg-blue-600 hover:bg-blue-700 shadow-lg" onClick={onContinue}>{t("stats.leaderboard")}</Button>
+      </div>
+    </div>
+  );
+};
+
+// --- Adaptive Difficulty ---
+
+// Key memory and pace tuning are part of the engine (engine.js); this is
+// where guests' key memory is kept between rounds.
+const KEY_MEMORY_STORAGE_KEY = "key_memory";
+
+// --- Sound ---
+
+// Every effect is synthesized with Web Audio, so the game works offline.
+// Each play gets fresh oscillator nodes, so overlapping hits layer instead of
+// cutting each other off.
+type SoundEffect = 'hit' | 'miss' | 'level-up' | 'countdown' | 'game-over';
+
+type SoundSettings = {
+  master: number; // 0..1
+  sfx: number;
+  music: number;
+  muted: boolean;
+  // Speak each cleared bomb: the letter or word in English, the syllable in Zhuyin.
+  phonetic: boolean;
+};
+
+type Tone = { wave: OscillatorType; from: number; to?: number; start: number; duration: number; gain: number };
+
+const SOUND_SETTINGS_STORAGE_KEY = "sound_settings";
+const DEFAULT_SOUND_SETTINGS: SoundSettings = { master: 0.8, sfx: 0.8, music: 0.3, muted: false, phonetic: false };
+const MAX_VOICES = 16;
+const MUSIC_STEP_MS = 300;
+// A C-major pentatonic loop; 0 is a rest.
+const MUSIC_NOTES = [523, 659, 784, 659, 587, 0, 440, 0, 523, 587, 659, 784, 880, 0, 784, 0];
+
+const SOUND_RECIPES: Record<SoundEffect, Tone[]> = {
+  hit: [{ wave: 'triangle', from: 660, to: 990, start: 0, duration: 0.12, gain: 0.5 }],
+  miss: [
+    { wave: 'sawtooth', from: 220, to: 70, start: 0, duration: 0.45, gain: 0.35 },
+    { wave: 'square', from: 110, to: 55, start: 0, duration: 0.45, gain: 0.2 }
+  ],
+  'level-up': [523, 659, 784, 1047].map((from, i) => ({ wave: 'triangle' as OscillatorType, from, start: i * 0.1, duration: 0.18, gain: 0.45 })),
+  countdown: [{ wave: 'sine', from: 880, start: 0, duration: 0.15, gain: 0.5 }],
+  'game-over': [784, 659, 523, 392].map((from, i) => ({ wave: 'sawtooth' as OscillatorType, from, start: i * 0.25, duration: 0.3, gain: 0.3 }))
+};
+
+const mergeSoundSettings = (stored: Partial<SoundSettings> | null | undefined): SoundSettings => ({
+  ...DEFAULT_SOUND_SETTINGS,
+  ...stored
+});
+
+// Audio stays silent until `unlock` runs inside a user gesture; browsers
+// refuse to start an AudioContext before that.
+const createSoundEngine = () => {
+  let ctx: AudioContext | null = null;
+  let masterGain: GainNode | null = null;
+  let sfxGain: GainNode | null = null;
+  let musicGain: GainNode | null = null;
+  let settings = DEFAULT_SOUND_SETTINGS;
+  let voices = 0;
+  let musicTimer: number | undefined;
+  let musicStep = 0;
+
+  const applySettings = () => {
+    if (masterGain) masterGain.gain.value = settings.muted ? 0 : settings.master;
+    if (sfxGain) sfxGain.gain.value = settings.sfx;
+    if (musicGain) musicGain.gain.value = settings.music;
+  };
+
+  const unlock = () => {
+    if (!ctx) {
+      const AudioContextClass = window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!AudioContextClass) return;
+      ctx = new AudioContextClass();
+      masterGain = ctx.createGain();
+      masterGain.connect(ctx.destination);
+      sfxGain = ctx.createGain();
+      sfxGain.connect(masterGain);
+      musicGain = ctx.createGain();
+      musicGain.connect(masterGain);
+      applySettings();
+    }
+    if (ctx.state === "suspended") ctx.resume().catch((e) => console.error("Failed to start audio", e));
+  };
+
+  const playTone = (tone: Tone, output: GainNode) => {
+    if (!ctx || voices >= MAX_VOICES) return;
+    const start = ctx.currentTime + tone.start;
+    const osc = ctx.createOscillator();
+    const envelope = ctx.createGain();
+    osc.type = tone.wave;
+    osc.frequency.setValueAtTime(tone.from, start);
+    if (tone.to) osc.frequency.exponentialRampToValueAtTime(tone.to, start + tone.duration);
+    envelope.gain.setValueAtTime(tone.gain, start);
+    envelope.gain.exponentialRampToValueAtTime(0.001, start + tone.duration);
+    osc.connect(envelope);
+    envelope.connect(output);
+    voices++;
+    osc.onended = () => {
+      voices--;
+      envelope.disconnect();
+    };
+    osc.start(start);
+    osc.stop(start + tone.duration);
+  };
+
+  const play = (effect: SoundEffect) => {
+    if (sfxGain && !settings.muted) SOUND_RECIPES[effect].forEach((tone) => playTone(tone, sfxGain!));
+  };
+
+  const startMusic = () => {
+    if (musicTimer !== undefined) return;
+    musicTimer = window.setInterval(() => {
+      const note = MUSIC_NOTES[musicStep++ % MUSIC_NOTES.length];
+      if (note && musicGain && !settings.muted && settings.music > 0) {
+        playTone({ wave: 'sine', from: note, start: 0, duration: 0.25, gain: 0.25 }, musicGain);
+      }
+    }, MUSIC_STEP_MS);
+  };
+
+  const stopMusic = () => {
+    window.clearInterval(musicTimer);
+    musicTimer = undefined;
+  };
+
+  const speak = (text: string, mode: 'en' | 'zh') => {
+    if (!settings.phonetic || settings.muted || !window.speechSynthesis) return;
+    const utterance = new SpeechSynthesisUtterance(mode === 'en' ? text.toLowerCase() : text);
+    utterance.lang = mode === 'en' ? "en-US" : "zh-TW";
+    utterance.volume = settings.master * settings.sfx;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const setSettings = (next: SoundSettings) => {
+    settings = next;
+    applySettings();
+  };
+
+  return { unlock, play, startMusic, stopMusic, speak, setSettings };
+};
+
+type SoundEngine = ReturnType<typeof createSoundEngine>;
+
+interface SoundSettingsPanelProps {
+  settings: SoundSettings;
+  i18n: I18n;
+  onChange: (settings: SoundSettings) => void;
+  onTest: (effect: SoundEffect) => void;
+  onClose: () => void;
+}
+
+const SoundSettingsPanel: React.FC<SoundSettingsPanelProps> = ({ settings, i18n, onChange, onTest, onClose }) => {
+  const { t } = i18n;
+  const slider = (label: string, field: 'master' | 'sfx' | 'music') => (
+    <label className="flex justify-between items-center mb-4 text-lg text-gray-800">
+      <span className="w-40 text-left">{label}</span>
+      <input
+        type="range"
+        className="flex-1 mx-4"
+        min={0}
+        max={100}
+        value={Math.round(settings[field] * 100)}
+        onChange={(e) => onChange({ ...settings, [field]: Number(e.target.value) / 100 })}
+      />
+      <span className="w-12 text-right font-mono">{Math.round(settings[field] * 100)}</span>
+    </label>
+  );
+
+  return (
+    <div className="p-4 w-full max-w-lg flex flex-col items-center">
+      <h1 className="text-4xl font-extrabold text-blue-700 mb-6">{t("sound.title")}</h1>
+      <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200 mb-6">
+        {slider(t("sound.master"), 'master')}
+        {slider(t("sound.sfx"), 'sfx')}
+        {slider(t("sound.music"), 'music')}
+        <label className="flex items-center mb-3 text-lg text-gray-800">
+          <input type="checkbox" className="mr-3" checked={settings.muted} onChange={(e) => onChange({ ...settings, muted: e.target.checked })} />
+          {t("sound.muteAll")}
+        </label>
+        <label className="flex items-center text-lg text-gray-800">
+          <input type="checkbox" className="mr-3" checked={settings.phonetic} onChange={(e) => onChange({ ...settings, phonetic: e.target.checked })} />
+          {t("sound.phonetic")}
+        </label>
+      </div>
+      <div className="mb-6 space-x-2">
+        {(Object.keys(SOUND_RECIPES) as SoundEffect[]).map((effect) => (
+          <Button key={effect} className="text-sm bg-gray-500 hover:bg-gray-600" onClick={() => onTest(effect)}>▶ {t(`sound.effect.${effect}`)}</Button>
+        ))}
+      </div>
+      <Button className="px-10 py-4 text-xl bg-blue-600 hover:bg-blue-700 shadow-lg" onClick={onClose}>{t("common.done")}</Button>
+    </div>
+  );
+};
+
+// --- Translations ---
+
+// UI text lives in the message catalogs under locales/, one file per language.
+// English is the reference: its keys type every lookup, and any message a
+// catalog leaves out is shown in English.
+type Message = string | { [pluralRule: string]: string; other: string };
+type MessageKey = keyof typeof en.messages;
+type MessageParams = { [name: string]: string | number };
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+type Catalog = { code: string; name: string; messages: { [key in MessageKey]?: Message } };
+
+const CATALOGS: Catalog[] = catalogs;
+const LOCALE_STORAGE_KEY = "locale";
+
+// Picks the catalog for the first preferred language we have, matching the
+// full tag first and then just the language ("zh-Hant-TW" finds "zh-TW").
+const detectLocale = (languages: readonly string[]) => {
+  const codes = CATALOGS.map((c) => c.code.toLowerCase());
+  for (const language of languages.map((l) => l.toLowerCase())) {
+    const exact = codes.indexOf(language);
+    if (exact !== -1) return CATALOGS[exact].code;
+    const sameLanguage = codes.findIndex((code) => code.split("-")[0] === language.split("-")[0]);
+    if (sameLanguage !== -1) return CATALOGS[sameLanguage].code;
+  }
+  return en.code;
+};
+
+// Everything a screen needs to show text in one language.
+type I18n = {
+  locale: string;
+  t: Translate;
+  formatDate: (isoDate: string) => string;
+};
+
+const createI18n = (locale: string): I18n => {
+  const catalog = CATALOGS.find((c) => c.code === locale) || en;
+  const pluralRules = new Intl.PluralRules(catalog.code);
+  const dateFormat = new Intl.DateTimeFormat(catalog.code, { dateStyle: "medium" });
+  return {
+    locale: catalog.code,
+    t: (key, params = {}) => {
+      const message: Message = catalog.messages[key] ?? en.messages[key];
+      const text = typeof message === "string" ? message
+        : message[pluralRules.select(Number(params.count))] ?? message.other;
+      return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+    },
+    formatDate: (isoDate) => dateFormat.format(new Date(isoDate))
+  };
+};
+
+const ENGLISH = createI18n(en.code);
+
+// Difficulty and lesson names are stored in English with each session and
+// score, so only their display is translated.
+const DIFFICULTY_MESSAGES: { [name: string]: MessageKey } = {
+  "Very Easy": "difficulty.veryEasy",
+  "Easy": "difficulty.easy",
+  "Normal": "difficulty.normal",
+  "Hard": "difficulty.hard",
+  "Very Hard": "difficulty.veryHard",
+  "Adaptive": "difficulty.adaptive"
+};
+
+// Built-in lesson names from DRILL_LESSONS and ROW_LESSONS. Lesson packs
+// keep the name their author gave them.
+const LESSON_MESSAGES: { [name: string]: MessageKey } = {
+  "Letters": "drill.en.chars",
+  "Words": "drill.en.words",
+  "Symbols": "drill.zh.chars",
+  "Syllables": "drill.zh.words",
+  "漢字": "drill.zh.hanzi",
+  "Home Row": "rowLesson.home",
+  "Home + Top Row": "rowLesson.homeTop",
+  "Home, Top + Bottom Rows": "rowLesson.homeTopBottom",
+  "All Rows": "rowLesson.all",
+  "Earlier scores": "board.earlierScores"
+};
+
+const difficultyName = (t: Translate, name: string) => (DIFFICULTY_MESSAGES[name] ? t(DIFFICULTY_MESSAGES[name]) : name);
+const lessonName = (t: Translate, name: string) => (LESSON_MESSAGES[name] ? t(LESSON_MESSAGES[name]) : name);
+
+interface LanguagePickerProps {
+  i18n: I18n;
+  onChange: (locale: string) => void;
+}
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ i18n, onChange }) => (
+  <label className="text-gray-700">
+    🌐 <span className="sr-only">{i18n.t("language.label")}</span>
+    <select
+      className="border border-gray-400 p-1 rounded-lg text-gray-800 bg-white"
+      value={i18n.locale}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {CATALOGS.map((catalog) => (
+        <option key={catalog.code} value={catalog.code} lang={catalog.code}>{catalog.name}</option>
+      ))}
+    </select>
+  </label>
+);
+
+// --- Accessibility ---
+
+type MotionPreference = 'system' | 'reduce' | 'full';
+
+type AccessibilitySettings = {
+  theme: CanvasTheme;
+  // 'system' follows the operating system's reduced-motion setting.
+  motion: MotionPreference;
+  // Multiplier for the text drawn on bombs.
+  fontScale: number;
+  // Describe new bombs, hits and lost lives to screen readers.
+  announce: boolean;
+};
+
+const ACCESSIBILITY_STORAGE_KEY = "accessibility";
+const DEFAULT_ACCESSIBILITY: AccessibilitySettings = { theme: 'standard', motion: 'system', fontScale: 1, announce: true };
+const FONT_SCALES = [1, 1.25, 1.5, 2];
+
+const THEMES: CanvasTheme[] = ['standard', 'high-contrast', 'colorblind'];
+const MOTION_PREFERENCES: MotionPreference[] = ['system', 'reduce', 'full'];
+
+const mergeAccessibilitySettings = (stored: Partial<AccessibilitySettings> | null | undefined): AccessibilitySettings => ({
+  ...DEFAULT_ACCESSIBILITY,
+  ...(stored || {})
+});
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+const usePrefersReducedMotion = () => {
+  const [prefers, setPrefers] = useState(() => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false);
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const handleChange = () => setPrefers(query.matches);
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, []);
+  return prefers;
+};
+
+const drawOptionsFor = (settings: AccessibilitySettings, reduceMotion: boolean, t: Translate): DrawOptions => ({
+  palette: CANVAS_PALETTES[settings.theme],
+  fontScale: settings.fontScale,
+  reduceMotion,
+  t
+});
+
+// Arrow keys move focus between the buttons of a group, on top of the usual Tab order.
+const focusByArrows = (e: React.KeyboardEvent<HTMLElement>) => {
+  const step = e.key === "ArrowRight" || e.key === "ArrowDown" ? 1 : e.key === "ArrowLeft" || e.key === "ArrowUp" ? -1 : 0;
+  if (step === 0) return;
+  const buttons = Array.from(e.currentTarget.querySelectorAll<HTMLButtonElement>("button:not([disabled])"));
+  const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+  if (index === -1) return;
+  e.preventDefault();
+  buttons[(index + step + buttons.length) % buttons.length].focus();
+};
+
+interface AccessibilitySettingsPanelProps {
+  settings: AccessibilitySettings;
+  i18n: I18n;
+  onChange: (settings: AccessibilitySettings) => void;
+  onClose: () => void;
+}
+
+const AccessibilitySettingsPanel: React.FC<AccessibilitySettingsPanelProps> = ({ settings, i18n: { t }, onChange, onClose }) => (
+  <div className="p-4 w-full max-w-lg flex flex-col items-center">
+    <h1 className="text-4xl font-extrabold text-blue-700 mb-6">{t("accessibility.title")}</h1>
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200 mb-6 text-gray-800">
+      <h2 className="text-lg font-bold mb-2">{t("accessibility.colours")}</h2>
+      <div role="group" aria-label={t("accessibility.colours")} className="flex space-x-2 mb-6" onKeyDown={focusByArrows}>
+        {THEMES.map((theme) => (
+          <Button
+            key={theme}
+            className={`text-sm ${settings.theme === theme ? 'bg-blue-600' : 'bg-gray-500 hover:bg-gray-600'}`}
+            aria-pressed={settings.theme === theme}
+            onClick={() => onChange({ ...settings, theme })}
+          >
+            {t(`accessibility.theme.${theme}`)}
+          </Button>
+        ))}
+      </div>
+      <h2 className="text-lg font-bold mb-2">{t("accessibility.animation")}</h2>
+      <div role="group" aria-label={t("accessibility.animation")} className="flex space-x-2 mb-6" onKeyDown={focusByArrows}>
+        {MOTION_PREFERENCES.map((motion) => (
+          <Button
+            key={motion}
+            className={`text-sm ${settings.motion === motion ? 'bg-blue-600' : 'bg-gray-500 hover:bg-gray-600'}`}
+            aria-pressed={settings.motion === motion}
+            onClick={() => onChange({ ...settings, motion })}
+          >
+            {t(`accessibility.motion.${motion}`)}
+          </Button>
+        ))}
+      </div>
+      <h2 className="text-lg font-bold mb-2">{t("accessibility.textSize")}</h2>
+      <div role="group" aria-label={t("accessibility.textSize")} className="flex space-x-2 mb-6" onKeyDown={focusByArrows}>
+        {FONT_SCALES.map((scale) => (
+          <Button
+            key={scale}
+            className={`text-sm ${settings.fontScale === scale ? 'bg-blue-600' : 'bg-gray-500 hover:bg-gray-600'}`}
+            aria-pressed={settings.fontScale === scale}
+            onClick={() => onChange({ ...settings, fontScale: scale })}
+          >
+            {Math.round(scale * 100)}%
+          </Button>
+        ))}
+      </div>
+      <label className="flex items-center text-lg">
+        <input type="checkbox" className="mr-3" checked={settings.announce} onChange={(e) => onChange({ ...settings, announce: e.target.checked })} />
+        {t("accessibility.announce")}
+      </label>
+    </div>
+    <Button className="px-10 py-4 text-xl bg-blue-600 hover:bg-blue-700 shadow-lg" onClick={onClose}>{t("common.done")}</Button>
+  </div>
+);
+
+// --- Player Profiles ---
+
+// A local player account. Sessions, best scores (keyed by `mode:difficulty`),
+// unlocked difficulty levels and key memory all travel with the profile.
+type PlayerProfile = {
+  id: string;
+  name: string;
+  avatar: string;
+  preferredMode: 'en' | 'zh';
+  createdAt: string;
+  sessions: SessionSummary[];
+  bestScores: { [modeAndDifficulty: string]: number };
+  // Fastest Clear rounds in ms, keyed like `bestScores`; missing on older profiles.
+  bestTimes?: { [modeAndDifficulty: string]: number };
+  unlockedLevels: { en: number; zh: number };
+  keyMemory: { en: KeyMemory; zh: KeyMemory };
+  // Missing on profiles saved before sound settings existed.
+  soundSettings?: SoundSettings;
+  // Keyboard layout id per mode; missing on older profiles.
+  layouts?: { en: string; zh: string };
+  // Highest unlocked ROW_LESSONS index per mode; missing means only the first.
+  rowLessonsUnlocked?: { en: number; zh: number };
+  // Lesson pack ids the teacher has assigned.
+  assignedPacks?: string[];
+  // Missing on profiles saved before accessibility settings existed.
+  accessibility?: AccessibilitySettings;
+  // UI language code; missing means the device's language.
+  locale?: string;
+};
+
+const PROFILES_STORAGE_KEY = "profiles";
+const ACTIVE_PROFILE_STORAGE_KEY = "active_profile";
+const PROFILE_AVATARS = ["🐱", "🐶", "🐼", "🦊", "🐸", "🐵", "🦁", "🐯", "🐰", "🐧", "🦄", "🐲"];
+// Index of the hardest preset a new profile may pick; clearing a level unlocks the next.
+const DEFAULT_UNLOCKED_LEVEL = 1;
+
+const bestScoreKey = (mode: 'en' | 'zh', difficulty: string, challenge: Challenge = 'survival') =>
+  challenge === 'survival' ? `${mode}:${difficulty}` : `${mode}:${difficulty}:${challenge}`;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const createProfile = (
+  name: string,
+  avatar: string,
+  preferredMode: 'en' | 'zh',
+  legacySessions: SessionSummary[] = []
+): PlayerProfile => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  avatar,
+  preferredMode,
+  createdAt: new Date().toISOString(),
+  sessions: legacySessions,
+  bestScores: legacySessions.reduce<{ [key: string]: number }>((best, session) => {
+    if (!session.difficulty) return best;
+    const key = bestScoreKey(session.mode, session.difficulty);
+    best[key] = Math.max(best[key] || 0, session.score);
+    return best;
+  }, {}),
+  unlockedLevels: { en: DEFAULT_UNLOCKED_LEVEL, zh: DEFAULT_UNLOCKED_LEVEL },
+  keyMemory: { en: {}, zh: {} }
+});
+
+// Builds a profile from an exported file, taking each field only if it checks
+// out and the new profile's default otherwise. Rounds that don't check out are
+// dropped. Returns null unless there is at least a name and a session list.
+const importedProfile = (value: unknown): PlayerProfile | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const data = value as { [field: string]: unknown };
+  if (typeof data.name !== "string" || !data.name.trim() || !Array.isArray(data.sessions)) return null;
+
+  const fields = (field: unknown) =>
+    typeof field === "object" && field !== null ? field as { [field: string]: unknown } : undefined;
+  const numbers = (field: unknown) => Object.fromEntries(Object.entries(fields(field) || {})
+    .filter((entry): entry is [string, number] => typeof entry[1] === "number" && Number.isFinite(entry[1])));
+  const perMode = <T,>(field: unknown, check: (v: unknown) => v is T, fallback: { en: T; zh: T }) => {
+    const modes = fields(field) || {};
+    return { en: check(modes.en) ? modes.en : fallback.en, zh: check(modes.zh) ? modes.zh : fallback.zh };
+  };
+  const isLevel = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+  const isString = (v: unknown): v is string => typeof v === "string";
+  const isVolume = (v: unknown): v is number => typeof v === "number" && v >= 0 && v <= 1;
+  const isKeyMemory = (v: unknown): v is KeyMemory => {
+    const memory = fields(v);
+    return !!memory && Object.values(memory).every((entry) => {
+      const box = fields(entry);
+      return !!box && typeof box.box === "number" && typeof box.due === "number";
+    });
+  };
+
+  const base = createProfile(data.name, isString(data.avatar) ? data.avatar : PROFILE_AVATARS[0], data.preferredMode === 'zh' ? 'zh' : 'en');
+  const profile: PlayerProfile = {
+    ...base,
+    createdAt: isString(data.createdAt) ? data.createdAt : base.createdAt,
+    sessions: data.sessions.filter(isSessionSummary).slice(-MAX_HISTORY_PER_PLAYER),
+    bestScores: numbers(data.bestScores),
+    unlockedLevels: perMode(data.unlockedLevels, isLevel, base.unlockedLevels),
+    keyMemory: perMode(data.keyMemory, isKeyMemory, base.keyMemory)
+  };
+  if (fields(data.bestTimes)) profile.bestTimes = numbers(data.bestTimes);
+  if (fields(data.layouts)) profile.layouts = perMode(data.layouts, isString, DEFAULT_LAYOUTS);
+  if (fields(data.rowLessonsUnlocked)) profile.rowLessonsUnlocked = perMode(data.rowLessonsUnlocked, isLevel, { en: 0, zh: 0 });
+  if (Array.isArray(data.assignedPacks)) profile.assignedPacks = data.assignedPacks.filter(isString);
+  if (isString(data.locale)) profile.locale = data.locale;
+  const sound = fields(data.soundSettings);
+  if (sound) {
+    profile.soundSettings = {
+      master: isVolume(sound.master) ? sound.master : DEFAULT_SOUND_SETTINGS.master,
+      sfx: isVolume(sound.sfx) ? sound.sfx : DEFAULT_SOUND_SETTINGS.sfx,
+      music: isVolume(sound.music) ? sound.music : DEFAULT_SOUND_SETTINGS.music,
+      muted: typeof sound.muted === "boolean" ? sound.muted : DEFAULT_SOUND_SETTINGS.muted,
+      phonetic: typeof sound.phonetic === "boolean" ? sound.phonetic : DEFAULT_SOUND_SETTINGS.phonetic
+    };
+  }
+  const accessibility = fields(data.accessibility);
+  if (accessibility) {
+    profile.accessibility = {
+      theme: THEMES.find((theme) => theme === accessibility.theme) || DEFAULT_ACCESSIBILITY.theme,
+      motion: MOTION_PREFERENCES.find((motion) => motion === accessibility.motion) || DEFAULT_ACCESSIBILITY.motion,
+      fontScale: FONT_SCALES.find((scale) => scale === accessibility.fontScale) || DEFAULT_ACCESSIBILITY.fontScale,
+      announce: typeof accessibility.announce === "boolean" ? accessibility.announce : DEFAULT_ACCESSIBILITY.announce
+    };
+  }
+  return profile;
+};
+
+// Returns the profile with a finished round folded into its history and bests.
+// Clear rounds are ranked by time, like their leaderboards; Zen has no best.
+const recordSession = (profile: PlayerProfile, summary: SessionSummary): PlayerProfile => {
+  const key = bestScoreKey(summary.mode, summary.difficulty, summary.challenge);
+  const recorded = { ...profile, sessions: [...profile.sessions, summary].slice(-MAX_HISTORY_PER_PLAYER) };
+  if (summary.challenge === 'zen') return recorded;
+  if (summary.challenge === 'clear') {
+    const bestTimes = profile.bestTimes || {};
+    return { ...recorded, bestTimes: { ...bestTimes, [key]: Math.min(bestTimes[key] ?? Infinity, summary.durationMs) } };
+  }
+  return { ...recorded, bestScores: { ...profile.bestScores, [key]: Math.max(profile.bestScores[key] || 0, summary.score) } };
+};
+
+// A profile's best for the board, formatted for the difficulty buttons.
+const personalBest = (profile: PlayerProfile, mode: 'en' | 'zh', difficulty: string, challenge: Challenge) => {
+  const key = bestScoreKey(mode, difficulty, challenge);
+  if (challenge === 'zen') return undefined;
+  if (challenge === 'clear') {
+    const time = profile.bestTimes?.[key];
+    return time === undefined ? undefined : `${(time / 1000).toFixed(1)}s`;
+  }
+  return profile.bestScores[key];
+};
+
+interface ProfileManagerProps {
+  profiles: PlayerProfile[];
+  activeProfileId: string | null;
+  legacyHistory: { [player: string]: SessionSummary[] };
+  i18n: I18n;
+  onChange: (profiles: PlayerProfile[]) => void;
+  // Starts playing as the given profile, or as a guest for null.
+  onSelect: (profile: PlayerProfile | null) => void;
+}
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({ profiles, activeProfileId, legacyHistory, i18n, onChange, onSelect }) => {
+  const { t } = i18n;
+  const [name, setName] = useState("");
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [preferredMode, setPreferredMode] = useState<'en' | 'zh'>('en');
+  const [error, setError] = useState("");
+
+  const addProfile = () => {
+    if (!name.trim()) {
+      setError(t("profiles.nameRequired"));
+      return;
+    }
+    if (profiles.some((p) => sameName(p.name, name))) {
+      setError(t("profiles.duplicate", { name: name.trim() }));
+      return;
+    }
+    // Earlier rounds saved under the same free-text name move into the profile.
+    const legacySessions = Object.keys(legacyHistory)
+      .filter((player) => sameName(player, name))
+      .flatMap((player) => legacyHistory[player]);
+    const profile = createProfile(name, avatar, preferredMode, legacySessions);
+    onChange([...profiles, profile]);
+    setName("");
+    setError("");
+    onSelect(profile);
+  };
+
+  const deleteProfile = (profile: PlayerProfile) => {
+    if (!window.confirm(t("profiles.confirmDelete", { name: profile.name }))) return;
+    onChange(profiles.filter((p) => p.id !== profile.id));
+  };
+
+  const importProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const profile = importedProfile(JSON.parse(await file.text()));
+      if (!profile) {
+        setError(t("profiles.notProfile"));
+        return;
+      }
+      if (profiles.some((p) => sameName(p.name, profile.name))) {
+        setError(t("profiles.duplicate", { name: profile.name }));
+        return;
+      }
+      onChange([...profiles, profile]);
+      setError("");
+    } catch (err) {
+      setError(t("profiles.invalidJson"));
+    }
+  };
+
+  return (
+    <div className="p-4 w-full max-w-2xl flex flex-col items-center">
+      <h1 className="text-4xl font-extrabold text-blue-700 mb-6">{t("profiles.title")}</h1>
+
+      {profiles.length > 0 && (
+        <ul className="w-full mb-6 bg-white p-4 rounded-xl shadow-lg border border-gray-200">
+          {profiles.map((profile) => (
+            <li key={profile.id} className="flex justify-between items-center border-b py-2 last:border-b-0">
+              <span className="text-gray-800 text-xl">
+                <span className="text-3xl mr-2">{profile.avatar}</span>
+                <span className="font-semibold">{profile.name}</span>
+                <span className="text-sm text-gray-500 ml-2">
+                  {t("profiles.summary", { mode: t(`mode.${profile.preferredMode}`), count: profile.sessions.length })}
+                </span>
+              </span>
+              <span className="space-x-2">
+                <Button
+                  className={profile.id === activeProfileId ? "bg-yellow-500 text-black" : "bg-green-500 hover:bg-green-600"}
+                  onClick={() => onSelect(profile)}
+                >
+                  {profile.id === activeProfileId ? t("profiles.playing") : t("profiles.play")}
+                </Button>
+                <Button
+                  className="text-sm bg-gray-600 hover:bg-gray-700"
+                  onClick={() => downloadFile(`${profile.name}.profile.json`, JSON.stringify(profile, null, 2), "application/json")}
+                >
+                  {t("profiles.export")}
+                </Button>
+                <Button className="text-sm bg-red-500 hover:bg-red-600" onClick={() => deleteProfile(profile)}>{t("profiles.delete")}</Button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="w-full bg-white p-4 rounded-xl shadow-lg border border-gray-200 mb-6">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800">{t("profiles.new")}</h2>
+        <div className="flex space-x-4 mb-4">
+          <input
+            className="flex-1 border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("profiles.name")}
+            maxLength={15}
+          />
+          <select
+            className="border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={preferredMode}
+            onChange={(e) => setPreferredMode(e.target.value as 'en' | 'zh')}
+          >
+            <option value="en">{t("mode.en")}</option>
+            <option value="zh">{t("mode.zh")}</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {PROFILE_AVATARS.map((a) => (
+            <button
+              key={a}
+              className={`text-3xl p-1 rounded-lg ${avatar === a ? 'bg-yellow-300' : 'hover:bg-gray-200'}`}
+              onClick={() => setAvatar(a)}
+            >
+              {a}
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between items-center">
+          <label className="cursor-pointer text-blue-700 font-semibold">
+            {t("profiles.import")}
+            <input type="file" accept=".json" className="hidden" onChange={importProfile} />
+          </label>
+          <Button className="bg-green-500 hover:bg-green-600" onClick={addProfile}>{t("profiles.create")}</Button>
+        </div>
+        {error && <p className="mt-4 text-red-600">{error}</p>}
+      </div>
+
+      <Button className="px-8 py-3 text-lg bg-gray-500 hover:bg-gray-600 shadow" onClick={() => onSelect(null)}>{t("profiles.guest")}</Button>
+    </div>
+  );
+};
+
+// --- Canvas Renderer ---
+
+const LEVEL_BANNER_MS = 2500;
+
+// Level transition drawn over the play field; play carries on underneath.
+type LevelBanner = { difficultyIndex: number; elapsedMs: number };
+
+const drawLevelBanner = (ctx: CanvasRenderingContext2D, { difficultyIndex, elapsedMs }: LevelBanner, { reduceMotion, t }: DrawOptions) => {
+  if (elapsedMs < 0 || elapsedMs >= LEVEL_BANNER_MS) return;
+  // Fade out over the last half second.
+  ctx.globalAlpha = reduceMotion ? 1 : Math.min(1, (LEVEL_BANNER_MS - elapsedMs) / 500);
+  ctx.fillStyle = "rgba(22, 101, 52, 0.85)";
+  ctx.fillRect(0, CANVAS_HEIGHT / 2 - 50, CANVAS_WIDTH, 100);
+  ctx.fillStyle = "white";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.font = "bold 30px Arial";
+  ctx.fillText(t("game.levelComplete"), CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 15);
+  ctx.font = "bold 18px Arial";
+  ctx.fillText(t("game.nextDifficulty", { level: difficultyName(t, difficulties[difficultyIndex].name) }), CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 22);
+  ctx.globalAlpha = 1;
+};
+
+const BOMB_ICONS: { [kind in BombKind]: string } = {
+  normal: "", freeze: "❄", nuke: "☢", heart: "❤", armored: "🛡", decoy: "💀"
+};
+
+type CanvasTheme = 'standard' | 'high-contrast' | 'colorblind';
+
+type CanvasPalette = {
+  // Null leaves the canvas element's own background showing.
+  background: string | null;
+  bombs: { [kind in BombKind]: string };
+  text: string;
+  typed: string;
+  lock: string;
+  armor: string;
+  // Back text with a plate in the bomb's colour, so words wider than the
+  // bomb stay readable over the field.
+  plate: boolean;
+};
+
+const CANVAS_PALETTES: { [theme in CanvasTheme]: CanvasPalette } = {
+  standard: {
+    background: null,
+    bombs: { normal: "black", freeze: "#0369a1", nuke: "#b91c1c", heart: "#be185d", armored: "#374151", decoy: "#6b21a8" },
+    text: "white",
+    typed: "#4ade80",
+    lock: "#facc15",
+    armor: "#9ca3af",
+    plate: false
+  },
+  // Light bombs with black text on a black field.
+  'high-contrast': {
+    background: "black",
+    bombs: { normal: "white", freeze: "#00ffff", nuke: "#ffd400", heart: "#ff9ad5", armored: "#c0c0c0", decoy: "#ff5c5c" },
+    text: "black",
+    typed: "#0033cc",
+    lock: "#ffff00",
+    armor: "#ffffff",
+    plate: true
+  },
+  // Okabe–Ito colours, which stay distinct under the common colour-vision
+  // deficiencies; typed text is sky blue rather than green.
+  colorblind: {
+    background: null,
+    bombs: { normal: "black", freeze: "#0072b2", nuke: "#d55e00", heart: "#cc79a7", armored: "#555555", decoy: "#8a5a00" },
+    text: "white",
+    typed: "#56b4e9",
+    lock: "#f0e442",
+    armor: "#bbbbbb",
+    plate: false
+  }
+};
+
+// `t` translates the text drawn on the canvas.
+type DrawOptions = { palette: CanvasPalette; fontScale: number; reduceMotion: boolean; t: Translate };
+
+const DEFAULT_DRAW_OPTIONS: DrawOptions = { palette: CANVAS_PALETTES.standard, fontScale: 1, reduceMotion: false, t: ENGLISH.t };
+
+const drawGame = (ctx: CanvasRenderingContext2D, state: GameState, banner?: LevelBanner | null, options = DEFAULT_DRAW_OPTIONS) => {
+  const { palette, fontScale } = options;
+  const font = (size: number) => `bold ${Math.round(size * fontScale)}px Arial`;
+  const plate = (b: Bomb, left: number, width: number, size: number) => {
+    if (!palette.plate) return;
+    ctx.fillStyle = palette.bombs[b.kind];
+    ctx.fillRect(left - 4, b.y - (size * fontScale) / 2 - 2, width + 8, size * fontScale + 4);
+  };
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  if (palette.background) {
+    ctx.fillStyle = palette.background;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  }
+  if (state.freezeTimer > 0) {
+    ctx.fillStyle = "rgba(125, 211, 252, 0.15)";
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  }
+  state.bombs.forEach((b) => {
+    const icon = BOMB_ICONS[b.kind];
+    ctx.fillStyle = palette.bombs[b.kind];
+    ctx.beginPath();
+    ctx.arc(b.x, b.y, BOMB_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    if (b.armor > 0) {
+      ctx.strokeStyle = palette.armor;
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.arc(b.x, b.y, BOMB_RADIUS - 2, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    if (icon) {
+      ctx.font = `${Math.round(14 * fontScale)}px Arial`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(icon, b.x + BOMB_RADIUS, b.y - BOMB_RADIUS);
+    }
+    if (b.typed > 0) {
+      ctx.strokeStyle = palette.lock;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(b.x, b.y, BOMB_RADIUS + 3, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.fillStyle = "gray";
+    ctx.fillRect(b.x - 2, b.y - 25, 4, 10);
+    ctx.fillStyle = "red";
+    ctx.beginPath();
+    ctx.arc(b.x, b.y - 25, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.textBaseline = "middle";
+    if (b.parts.length === 1 || b.text !== b.parts.join("")) {
+      ctx.font = font(24);
+      const width = ctx.measureText(b.text).width;
+      plate(b, b.x - width / 2, width, 24);
+      ctx.fillStyle = palette.text;
+      ctx.textAlign = "center";
+      ctx.fillText(b.text, b.x, b.y);
+      if (b.typed > 0) {
+        // 漢字 bombs only reveal the Zhuyin the player has typed so far.
+        // That text sits below the bomb, on the field rather than on the bomb.
+        ctx.fillStyle = palette.background ? palette.lock : palette.typed;
+        ctx.font = font(16);
+        ctx.fillText(b.parts.slice(0, b.typed).join(""), b.x, b.y + 36);
+      }
+      return;
+    }
+    // Multi-part bombs: typed parts in the palette's typed colour, the rest in its text colour.
+    ctx.font = font(18);
+    ctx.textAlign = "left";
+    const typedText = b.parts.slice(0, b.typed).join("");
+    const remainingText = b.parts.slice(b.typed).join("");
+    const typedWidth = ctx.measureText(typedText).width;
+    const startX = b.x - (typedWidth + ctx.measureText(remainingText).width) / 2;
+    plate(b, startX, typedWidth + ctx.measureText(remainingText).width, 18);
+    ctx.fillStyle = palette.typed;
+    ctx.fillText(typedText, startX, b.y);
+    ctx.fillStyle = palette.text;
+    ctx.fillText(remainingText, startX + typedWidth, b.y);
+  });
+  if (state.freezeTimer > 0) {
+    ctx.fillStyle = "#e0f2fe";
+    ctx.font = "bold 16px Arial";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "top";
+    ctx.fillText(`❄ ${Math.ceil(state.freezeTimer / 1000)}s`, CANVAS_WIDTH - 10, 10);
+  }
+  if (banner) drawLevelBanner(ctx, banner, options);
+};
+
+// Parts the player may type next: the locked target's, else every bomb's
+// first. Decoys are left out so the keyboard never suggests them.
+const nextParts = (bombs: Bomb[]) => {
+  const target = bombs.find((b) => b.typed > 0);
+  return (target ? [target] : bombs.filter((b) => b.kind !== 'decoy')).flatMap(openParts);
+};
+
+// --- Game Loop ---
+
+const RESUME_COUNTDOWN = 3; // seconds shown before play continues
+
+// Fixed-timestep loop shared by solo rounds, versus and races. While
+// `running`, each animation frame calls `onFrame` with the number of whole
+// STEP_MS steps to advance, so the engine runs at the same rate whatever the
+// frame rate; `onFrame` returns false once the round is over. Stopping the
+// loop (pausing, a countdown, leaving) simply stops engine time. Music plays
+// while it runs.
+const useFixedStepLoop = (running: boolean, sound: SoundEngine, onFrame: (steps: number) => boolean) => {
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  useEffect(() => {
+    if (!running) return;
+    let frame = 0;
+    let last = performance.now();
+    let accumulator = 0;
+    const tick = (now: number) => {
+      // Clamp long gaps (background tabs, blocking dialogs) so the loop cannot spiral.
+      accumulator += Math.min(now - last, 250);
+      last = now;
+      const steps = Math.floor(accumulator / STEP_MS);
+      accumulator -= steps * STEP_MS;
+      if (onFrameRef.current(steps)) frame = requestAnimationFrame(tick);
+      else sound.stopMusic();
+    };
+    frame = requestAnimationFrame(tick);
+    sound.startMusic();
+    return () => {
+      cancelAnimationFrame(frame);
+      sound.stopMusic();
+    };
+  }, [running, sound]);
+};
+
+// Seconds left in a countdown, ticking down once a second with a beep. Set
+// it to start counting; 0 means no countdown.
+const useCountdown = (sound: SoundEngine) => {
+  const [countdown, setCountdown] = useState(0);
+  useEffect(() => {
+    if (countdown <= 0) return;
+    sound.play('countdown');
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, sound]);
+  return [countdown, setCountdown] as const;
+};
+
+// While `active`, a hidden tab or a window that lost focus calls `pause`, so
+// nobody loses their lives for looking away.
+const usePauseOnBlur = (active: boolean, pause: () => void) => {
+  useEffect(() => {
+    if (!active) return;
+    const handleVisibility = () => {
+      if (document.hidden) pause();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("blur", pause);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("blur", pause);
+    };
+  }, [active, pause]);
+};
+
+// --- Replays ---
+
+// A finished round. Because the engine is deterministic, the config, the
+// starting key memory and the keys fed to each step rebuild the whole game;
+// spawns and level changes are kept too, for the timeline and to detect a
+// replay recorded under different rules. Steps are STEP_MS long.
+type Replay = {
+  version: number;
+  id: string;
+  player: string;
+  lesson: string;
+  date: string;
+  score: number;
+  durationMs: number;
+  config: GameConfig;
+  keyMemory: KeyMemory;
+  keys: [step: number, key: string][];
+  spawns: [step: number, text: string, x: number][];
+  levels: [step: number, difficultyIndex: number][];
+};
+
+const REPLAYS_STORAGE_KEY = "replays";
+const REPLAY_VERSION = 1;
+const MAX_SAVED_REPLAYS = 20;
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+const REPLAY_SNAPSHOT_EVERY = 600; // steps (10 s) between cached states for scrubbing
+
+const stepIndex = (state: GameState) => Math.round(state.time / STEP_MS);
+
+// A list of `[step, ...]` tuples.
+const isStepList = (value: unknown) =>
+  Array.isArray(value) && value.every((entry) => Array.isArray(entry) && typeof entry[0] === "number");
+
+// Checks a stored or imported replay before it is listed or played back.
+const isReplay = (value: unknown): value is Replay => {
+  if (typeof value !== "object" || value === null) return false;
+  const data = value as { [field: string]: unknown };
+  return data.version === REPLAY_VERSION && isGameConfig(data.config)
+    && typeof data.id === "string" && typeof data.player === "string" && typeof data.lesson === "string" && typeof data.date === "string"
+    && typeof data.score === "number" && typeof data.durationMs === "number"
+    && typeof data.keyMemory === "object" && data.keyMemory !== null
+    && isStepList(data.keys) && isStepList(data.spawns) && isStepList(data.levels);
+};
+
+// Physical keys to highlight for the parts a player may type next.
+const activeKeySet = (layout: KeyboardLayout, parts: string[]) =>
+  new Set(parts.map((part) => keyForPart(layout, part)));
+
+interface ReplayViewerProps {
+  replay: Replay;
+  drawOptions: DrawOptions;
+  i18n: I18n;
+  onClose: () => void;
+}
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, drawOptions, i18n, onClose }) => {
+  const { t } = i18n;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read at draw time so changing a setting doesn't restart the replay.
+  const drawOptionsRef = useRef(drawOptions);
+  drawOptionsRef.current = drawOptions;
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [hud, setHud] = useState({ score: 0, lives: STARTING_LIVES, difficultyIndex: replay.config.difficultyIndex });
+  const [activeParts, setActiveParts] = useState<string[]>([]);
+  const [diverged, setDiverged] = useState(false);
+
+  const layout = layoutById(replay.config.layout, replay.config.mode);
+  const totalSteps = Math.round(replay.durationMs / STEP_MS);
+  const keysByStep = useMemo(() => {
+    const map = new Map<number, string[]>();
+    replay.keys.forEach(([step, key]) => map.set(step, [...(map.get(step) || []), key]));
+    return map;
+  }, [replay]);
+  const spawnsByStep = useMemo(() => {
+    const map = new Map<number, [string, number][]>();
+    replay.spawns.forEach(([step, text, x]) => map.set(step, [...(map.get(step) || []), [text, x]]));
+    return map;
+  }, [replay]);
+
+  const simRef = useRef<GameState | null>(null);
+  const snapshotsRef = useRef(new Map<number, GameState>());
+  const positionRef = useRef(0);
+
+  // Re-simulates up to `target`, starting from the nearest cached state.
+  const seek = useCallback((target: number) => {
+    let state = simRef.current;
+    if (!state || stepIndex(state) > target) {
+      const cached = Array.from(snapshotsRef.current.keys()).filter((s) => s <= target).sort((a, b) => b - a)[0];
+      state = cached !== undefined
+        ? snapshotsRef.current.get(cached)!
+        : createGameState(replay.config, replay.keyMemory);
+    }
+    while (stepIndex(state) < target && !state.gameOver) {
+      const step = stepIndex(state);
+      state = stepGame(state, STEP_MS, keysByStep.get(step) || []);
+      const spawned = state.events.flatMap((e) => (e.type === 'spawn' ? [e.bomb] : []));
+      const recorded = spawnsByStep.get(step) || [];
+      if (spawned.length !== recorded.length || spawned.some((b, i) => b.text !== recorded[i][0] || Math.abs(b.x - recorded[i][1]) > 0.5)) {
+        setDiverged(true);
+      }
+      if ((step + 1) % REPLAY_SNAPSHOT_EVERY === 0) snapshotsRef.current.set(step + 1, state);
+    }
+    simRef.current = state;
+    positionRef.current = target;
+    const ctx = canvasRef.current?.getContext("2d");
+    const level = replay.levels.filter(([step]) => step < target).pop();
+    if (ctx) drawGame(ctx, state, level && { difficultyIndex: level[1], elapsedMs: (target - level[0]) * STEP_MS }, drawOptionsRef.current);
+    setPosition(target);
+    setHud({ score: state.score, lives: state.lives, difficultyIndex: state.difficultyIndex });
+    setActiveParts(nextParts(state.bombs));
+  }, [replay, keysByStep, spawnsByStep]);
+
+  useEffect(() => {
+    simRef.current = null;
+    snapshotsRef.current = new Map();
+    setDiverged(false);
+    seek(0);
+  }, [seek]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    let carry = 0;
+    const tick = (now: number) => {
+      carry += (Math.min(now - last, 250) * speed) / STEP_MS;
+      last = now;
+      const steps = Math.floor(carry);
+      carry -= steps;
+      const target = Math.min(totalSteps, positionRef.current + steps);
+      if (steps > 0) seek(target);
+      if (target >= totalSteps) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, totalSteps, seek]);
+
+  return (
+    <div className="p-4 flex flex-col items-center">
+      <h1 className="text-3xl font-extrabold text-blue-700 mb-2">{t("replay.title", { player: replay.player })}</h1>
+      <p className="text-gray-600 mb-4">
+        {i18n.formatDate(replay.date)} · {lessonName(t, replay.lesson)} · {replay.config.adaptive ? t("difficulty.adaptive") : difficultyName(t, difficulties[replay.config.difficultyIndex].name)} · {t("board.points", { score: replay.score })}
+      </p>
+      {diverged && (
+        <p className="mb-4 text-red-600 font-semibold">{t("replay.diverged")}</p>
+      )}
+      <div className="w-full max-w-xl flex justify-between items-center px-6 py-2 bg-white shadow-md rounded-lg mb-4 text-2xl font-extrabold">
+        <span className="text-red-600">❤️ {hud.lives}</span>
+        <span className="text-blue-600">🏆 {hud.score}</span>
+        <span className="text-green-700 text-lg">{replay.config.adaptive ? t("difficulty.adaptive") : difficultyName(t, difficulties[hud.difficultyIndex].name)}</span>
+      </div>
+      <canvas ref={canvasRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="bg-gray-900 border-4 border-gray-700 rounded-lg shadow-2xl" />
+      <div className="w-full max-w-xl mt-4">
+        <div className="relative">
+          <input
+            type="range"
+            className="w-full"
+            min={0}
+            max={totalSteps}
+            value={position}
+            onChange={(e) => seek(Number(e.target.value))}
+          />
+          {replay.levels.map(([step, level]) => (
+            <span
+              key={step}
+              className="absolute top-5 text-xs text-green-700 -translate-x-1/2"
+              style={{ left: `${(step / Math.max(1, totalSteps)) * 100}%` }}
+              title={t("replay.levelUp", { level: difficultyName(t, difficulties[level].name) })}
+            >
+              ▲
+            </span>
+          ))}
+        </div>
+        <div className="flex justify-between items-center mt-6">
+          <span className="font-mono text-gray-700">{formatClock(position * STEP_MS)} / {formatClock(totalSteps * STEP_MS)}</span>
+          <span className="space-x-2">
+            <Button
+              className="bg-blue-600 hover:bg-blue-700"
+              onClick={() => {
+                if (!playing && position >= totalSteps) seek(0);
+                setPlaying(!playing);
+              }}
+            >
+              {playing ? t("replay.pause") : t("replay.play")}
+            </Button>
+            {REPLAY_SPEEDS.map((s) => (
+              <Button key={s} className={`text-sm ${speed === s ? 'bg-yellow-500 text-black' : 'bg-gray-500'}`} onClick={() => setSpeed(s)}>
+                {s}×
+              </Button>
+            ))}
+          </span>
+        </div>
+      </div>
+      <div className="mt-4">
+        <Keyboard activeKeys={activeKeySet(layout, activeParts)} layout={layout} t={t} />
+      </div>
+      <Button className="mt-6 px-8 py-3 text-lg bg-gray-600 hover:bg-gray-700" onClick={onClose}>{t("common.back")}</Button>
+    </div>
+  );
+};
+
+interface ReplayLibraryProps {
+  replays: Replay[];
+  i18n: I18n;
+  onChange: (replays: Replay[]) => void;
+  onWatch: (replay: Replay) => void;
+  onClose: () => void;
+}
+
+const ReplayLibrary: React.FC<ReplayLibraryProps> = ({ replays, i18n, onChange, onWatch, onClose }) => {
+  const { t } = i18n;
+  const [error, setError] = useState("");
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      if (!isReplay(data)) {
+        setError(t("replay.notReplay"));
+        return;
+      }
+      onChange([data, ...replays.filter((r) => r.id !== data.id)].slice(0, MAX_SAVED_REPLAYS));
+      setError("");
+    } catch (err) {
+      setError(t("replay.invalidJson"));
+    }
+  };
+
+  return (
+    <div className="p-4 w-full max-w-2xl flex flex-col items-center">
+      <h1 className="text-4xl font-extrabold text-blue-700 mb-6">{t("replay.libraryTitle")}</h1>
+      {replays.length === 0 ? (
+        <p className="text-xl text-gray-600 mb-6">{t("replay.empty")}</p>
+      ) : (
+        <ul className="w-full mb-6 bg-white p-4 rounded-xl shadow-lg border border-gray-200">
+          {replays.map((replay) => (
+            <li key={replay.id} className="flex justify-between items-center border-b py-2 last:border-b-0">
+              <span className="text-gray-800">
+                <span className="font-semibold">{replay.player}</span>
+                <span className="text-sm text-gray-500 ml-2">
+                  {i18n.formatDate(replay.date)} · {lessonName(t, replay.lesson)} · {t("board.points", { score: replay.score })}
+                </span>
+              </span>
+              <span className="space-x-2">
+                <Button className="text-sm bg-green-500 hover:bg-green-600" onClick={() => onWatch(replay)}>{t("replay.watch")}</Button>
+                <Button
+                  className="text-sm bg-gray-600 hover:bg-gray-700"
+                  onClick={() => downloadFile(`replay-${replay.player}-${replay.date.slice(0, 10)}.json`, JSON.stringify(replay), "application/json")}
+                >
+                  {t("replay.export")}
+                </Button>
+                <Button className="text-sm bg-red-500 hover:bg-red-600" onClick={() => onChange(replays.filter((r) => r.id !== replay.id))}>{t("replay.delete")}</Button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="cursor-pointer text-blue-700 font-semibold mb-6">
+        {t("replay.import")}
+        <input type="file" accept=".json" className="hidden" onChange={importReplay} />
+      </label>
+      {error && <p className="mb-6 text-red-600">{error}</p>}
+      <Button className="px-10 py-4 text-xl bg-blue-600 hover:bg-blue-700 shadow-lg" onClick={onClose}>{t("common.back")}</Button>
+    </div>
+  );
+};
+
+// --- Versus ---
+
+// Two players share one keyboard: each hand's half drills its own characters
+// and feeds its own round. The thumb's Space key belongs to neither.
+
+type Hand = 'left' | 'right';
+type VersusPhase = 'setup' | 'playing' | 'results';
+type VersusHud = { lives: number; score: number; combo: number; sent: number };
+
+const VERSUS_HANDS: Hand[] = ['left', 'right'];
+const VERSUS_ATTACK_EVERY = 10; // combo length that sends bombs across
+const VERSUS_ATTACK_BOMBS = 2;
+
+const handOf = (key: string): Hand | null => {
+  const finger = FINGER_OF[key];
+  if (!finger || finger === 'thumb') return null;
+  return finger.startsWith('left') ? 'left' : 'right';
+};
+
+const handPool = (layout: KeyboardLayout, hand: Hand) =>
+  drillableLegends(layout, Object.keys(FINGER_OF).filter((key) => handOf(key) === hand));
+
+// Bombs a combo sends to the opponent as it grows from `before` to `after`.
+const comboAttack = (before: number, after: number) =>
+  after > before ? (Math.floor(after / VERSUS_ATTACK_EVERY) - Math.floor(before / VERSUS_ATTACK_EVERY)) * VERSUS_ATTACK_BOMBS : 0;
+
+// Steps both rounds, queues each player's attack on the other side, and ends
+// the match for both as soon as either player is out of lives.
+const stepVersus = (players: GameState[], dt: number, keys: string[][]) => {
+  const stepped = players.map((p, i) => stepGame(p, dt, keys[i]));
+  const attacks = stepped.map((p, i) => comboAttack(players[i].combo, p.combo));
+  const over = stepped.some((p) => p.gameOver);
+  const next = stepped.map((p, i): GameState => {
+    const queued = { ...p, incoming: p.incoming + attacks[1 - i] };
+    return over && !p.gameOver ? { ...queued, gameOver: true, events: [...p.events, { type: 'game-over' }] } : queued;
+  });
+  return { players: next, attacks };
+};
+
+// Index of the winner, or null for a draw: the survivor wins, and if both
+// fell on the same step the higher score does.
+const versusWinner = (players: GameState[]): number | null => {
+  const [a, b] = players;
+  if ((a.lives > 0) !== (b.lives > 0)) return a.lives > 0 ? 0 : 1;
+  if (a.score === b.score) return null;
+  return a.score > b.score ? 0 : 1;
+};
+
+interface VersusMatchProps {
+  mode: 'en' | 'zh';
+  layout: KeyboardLayout;
+  sound: SoundEngine;
+  drawOptions: DrawOptions;
+  i18n: I18n;
+  onClose: () => void;
+}
+
+const VersusMatch: React.FC<VersusMatchProps> = ({ mode, layout, sound, drawOptions, i18n, onClose }) => {
+  const { t } = i18n;
+  const defaultName = (i: number) => t("versus.player", { number: i + 1 });
+  const leftCanvasRef = useRef<HTMLCanvasElement>(null);
+  const rightCanvasRef = useRef<HTMLCanvasElement>(null);
+  const drawOptionsRef = useRef(drawOptions);
+  drawOptionsRef.current = drawOptions;
+  const matchRef = useRef<GameState[] | null>(null);
+  const pendingKeysRef = useRef<string[][]>([[], []]);
+  const [phase, setPhase] = useState<VersusPhase>('setup');
+  const [names, setNames] = useState(() => VERSUS_HANDS.map((_, i) => defaultName(i)));
+  const [difficultyIndex, setDifficultyIndex] = useState(1);
+  const [hud, setHud] = useState<VersusHud[]>([]);
+  const [activeParts, setActiveParts] = useState<string[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [countdown, setCountdown] = useCountdown(sound);
+  const [result, setResult] = useState<GameState[] | null>(null);
+
+  const startMatch = () => {
+    sound.unlock();
+    const seed = Math.floor(Math.random() * 2 ** 32);
+    // Both rounds share a seed, so the bombs fall on the same beat.
+    matchRef.current = VERSUS_HANDS.map((hand) => createGameState({
+      mode,
+      pool: handPool(layout, hand),
+      difficultyIndex,
+      adaptive: false,
+      seed,
+      clockStart: Date.now(),
+      layout: layout.id,
+      specials: true,
+      sharedSpawns: true
+    }, {}));
+    pendingKeysRef.current = [[], []];
+    setHud(VERSUS_HANDS.map(() => ({ lives: STARTING_LIVES, score: 0, combo: 0, sent: 0 })));
+    setActiveParts([]);
+    setResult(null);
+    setPaused(false);
+    setCountdown(RESUME_COUNTDOWN);
+    setPhase('playing');
+  };
+
+  useFixedStepLoop(phase === 'playing' && !paused && countdown <= 0, sound, (steps) => {
+    let players = matchRef.current;
+    if (!players) return false;
+    const events: GameEvent[] = [];
+    const sent = [0, 0];
+    for (let i = 0; i < steps && !players[0].gameOver; i++) {
+      const stepped = stepVersus(players, STEP_MS, pendingKeysRef.current);
+      pendingKeysRef.current = [[], []];
+      players = stepped.players;
+      players.forEach((p) => events.push(...p.events));
+      stepped.attacks.forEach((count, j) => { sent[j] += count; });
+    }
+    matchRef.current = players;
+    const current = players;
+    [leftCanvasRef, rightCanvasRef].forEach((canvasRef, i) => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (ctx) drawGame(ctx, current[i], null, drawOptionsRef.current);
+    });
+    if (events.some((e) => e.type === 'hit')) sound.play('hit');
+    if (events.some((e) => e.type === 'wrong-key' || e.type === 'decoy' || e.type === 'landed')) sound.play('miss');
+    setHud((prev) => current.map((p, i) => ({ lives: p.lives, score: p.score, combo: p.combo, sent: prev[i].sent + sent[i] })));
+    setActiveParts(current.flatMap((p) => nextParts(p.bombs)));
+    if (current[0].gameOver) {
+      sound.play('game-over');
+      setResult(current);
+      setPhase('results');
+      return false;
+    }
+    return true;
+  });
+
+  const pauseMatch = useCallback(() => {
+    pendingKeysRef.current = [[], []];
+    setPaused(true);
+    setCountdown(0);
+  }, []);
+
+  const resumeMatch = () => {
+    sound.unlock();
+    setPaused(false);
+    setCountdown(RESUME_COUNTDOWN);
+  };
+
+  usePauseOnBlur(phase === 'playing', pauseMatch);
+
+  useEffect(() => {
+    if (phase !== 'playing') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = eventKey(e);
+      // Nobody types Space in versus, so it always toggles pause, like Esc.
+      if (e.key === "Escape" || key === ' ') {
+        e.preventDefault();
+        if (paused) resumeMatch();
+        else pauseMatch();
+        return;
+      }
+      if (paused || countdown > 0 || key === undefined) return;
+      const hand = handOf(key);
+      if (hand) pendingKeysRef.current[VERSUS_HANDS.indexOf(hand)].push(key);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [phase, paused, countdown, pauseMatch]);
+
+  if (phase === 'setup') {
+    return (
+      <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center">
+        <h1 className="text-4xl font-extrabold text-red-600 mb-4">{t("menu.versus")}</h1>
+        <p className="text-lg text-gray-700 mb-6 max-w-2xl">
+          {t("versus.rules", { every: VERSUS_ATTACK_EVERY, bombs: VERSUS_ATTACK_BOMBS })}
+        </p>
+        <div className="flex space-x-8 mb-8">
+          {VERSUS_HANDS.map((hand, i) => (
+            <label key={hand} className="text-lg text-gray-700 w-64">
+              {hand === 'left' ? t("versus.leftHalf") : t("versus.rightHalf")}
+              <input
+                className="block w-full mt-1 border border-gray-400 p-2 rounded-lg text-gray-800"
+                value={names[i]}
+                maxLength={20}
+                onChange={(e) => setNames(names.map((n, j) => (j === i ? e.target.value : n)))}
+                placeholder={defaultName(i)}
+              />
+              <span className="block mt-2 font-mono text-sm text-gray-500 break-words">{handPool(layout, hand).join(" ")}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-center space-x-4 flex-wrap gap-y-4 mb-8">
+          {difficulties.map((level, i) => (
+            <Button
+              key={level.name}
+              className={`px-6 py-2 text-lg ${difficultyIndex === i ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-800'}`}
+              onClick={() => setDifficultyIndex(i)}
+            >
+              {difficultyName(t, level.name)}
+            </Button>
+          ))}
+        </div>
+        <div className="space-x-4">
+          <Button className="px-10 py-4 text-2xl bg-red-500 hover:bg-red-600 shadow-lg" onClick={startMatch}>{t("versus.start")}</Button>
+          <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700" onClick={onClose}>{t("common.back")}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'results' && result) {
+    const winner = versusWinner(result);
+    const rows: [MessageKey, (p: GameState, i: number) => React.ReactNode][] = [
+      ["versus.score", (p) => p.score],
+      ["versus.livesLeft", (p) => p.lives],
+      ["versus.defused", (p) => p.bombsCleared],
+      ["versus.bestCombo", (p) => p.bestCombo],
+      ["versus.sent", (_, i) => hud[i]?.sent ?? 0],
+      ["versus.accuracy", (p) => `${Math.round(summarizeSession(p.keystrokes, p.landed, p.time).accuracy * 100)}%`]
+    ];
+    return (
+      <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center">
+        <h1 className="text-5xl font-extrabold text-yellow-600 mb-8 animate-bounce">
+          {winner === null ? t("versus.draw") : t("versus.wins", { player: names[winner] || defaultName(winner) })}
+        </h1>
+        <table className="mb-8 text-xl text-gray-800 bg-white shadow-md rounded-lg">
+          <thead>
+            <tr>
+              <th className="px-6 py-2" />
+              {names.map((name, i) => (
+                <th key={i} className={`px-6 py-2 ${winner === i ? 'text-yellow-600' : ''}`}>{name || defaultName(i)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label} className="border-t border-gray-200">
+                <td className="px-6 py-2 text-left font-semibold">{t(label)}</td>
+                {result.map((p, i) => <td key={i} className="px-6 py-2">{value(p, i)}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="space-x-4">
+          <Button className="px-8 py-3 text-xl bg-red-500 hover:bg-red-600" onClick={startMatch}>{t("versus.rematch")}</Button>
+          <Button className="px-6 py-2 text-lg bg-gray-500 hover:bg-gray-600" onClick={() => setPhase('setup')}>{t("versus.changePlayers")}</Button>
+          <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700" onClick={onClose}>{t("common.back")}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 flex flex-col items-center">
+      <div className="relative flex space-x-6">
+        {[leftCanvasRef, rightCanvasRef].map((canvasRef, i) => (
+          <div key={i} className="flex flex-col items-center">
+            <div className="w-[400px] flex justify-between items-center px-4 py-2 bg-white shadow-md rounded-lg mb-2 font-extrabold select-none">
+              <span className="text-lg text-gray-800 truncate max-w-[120px]">{names[i] || defaultName(i)}</span>
+              <span className="text-red-600 text-2xl">❤️ {hud[i]?.lives}</span>
+              <span className="text-blue-600 text-2xl">🏆 {hud[i]?.score}</span>
+              <span className={`text-2xl ${(hud[i]?.combo || 0) >= VERSUS_ATTACK_EVERY ? 'text-orange-500' : 'text-gray-400'}`}>🔥 {hud[i]?.combo}</span>
+              <span className="text-sm text-gray-600" title={t("versus.sentTitle")}>⚔ {hud[i]?.sent}</span>
+            </div>
+            <canvas ref={canvasRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="bg-gray-900 border-4 border-gray-700 rounded-lg shadow-2xl" />
+          </div>
+        ))}
+        {(paused || countdown > 0) && (
+          <div className="absolute inset-0 flex flex-col justify-center items-center bg-black/70 rounded-lg text-white">
+            {paused ? (
+              <>
+                <h2 className="text-5xl font-extrabold mb-2">{t("game.paused")}</h2>
+                <p className="mb-8 text-gray-300">{t("game.resumeHint")}</p>
+                <Button className="px-10 py-3 text-xl bg-green-500 hover:bg-green-600 shadow-lg mb-4" onClick={resumeMatch}>{t("game.resume")}</Button>
+                <Button className="px-6 py-2 bg-gray-500 hover:bg-gray-600" onClick={() => setPhase('setup')}>{t("versus.quit")}</Button>
+              </>
+            ) : (
+              <span className="text-8xl font-extrabold animate-pulse">{countdown}</span>
+            )}
+          </div>
+        )}
+      </div>
+      <p className="mt-4 text-base text-gray-600">{t("game.specials")}</p>
+      <div className="mt-4">
+        <Keyboard activeKeys={activeKeySet(layout, activeParts)} layout={layout} t={t} />
+      </div>
+    </div>
+  );
+};
+
+// --- Classroom Race ---
+
+// Client for the LAN relay in server/relay.js (protocol in server/PROTOCOL.md).
+// The relay only passes messages on: every racer runs the host's seeded round
+// locally and reports progress, which the relay forwards to the room.
+
+type RacePlayer = {
+  id: number;
+  name: string;
+  connected: boolean;
+  racing: boolean;
+  done: boolean;
+  score: number;
+  lives: number;
+  bombsCleared: number;
+  timeMs: number;
+};
+type RaceRoomState = {
+  code: string;
+  hostId: number;
+  phase: 'lobby' | 'racing';
+  race: { id: number; config: GameConfig } | null;
+  players: RacePlayer[];
+};
+type RelayStatus = 'offline' | 'connecting' | 'online';
+
+const RELAY_STORAGE_KEY = "race_relay";
+const RELAY_PORT = 8787;
+const RACE_CHALLENGES: Challenge[] = ['sprint', 'clear'];
+const RACE_PROGRESS_MS = 500;
+
+// Clear races rank finishers by time, then everyone else by bombs defused;
+// other races rank by score.
+const compareRacers = (challenge: Challenge) => (a: RacePlayer, b: RacePlayer) => {
+  if (challenge !== 'clear') return b.score - a.score;
+  const aFinished = a.bombsCleared >= CLEAR_TARGET;
+  const bFinished = b.bombsCleared >= CLEAR_TARGET;
+  if (aFinished !== bFinished) return aFinished ? -1 : 1;
+  return aFinished ? a.timeMs - b.timeMs : b.bombsCleared - a.bombsCleared;
+};
+
+// Progress-bar fill: bombs towards the target in a Clear race, else score
+// relative to the leader.
+const raceProgress = (player: RacePlayer, challenge: Challenge, leaderScore: number) =>
+  challenge === 'clear' ? Math.min(1, player.bombsCleared / CLEAR_TARGET)
+    : leaderScore > 0 ? player.score / leaderScore : 0;
+
+// Relay messages are checked before they reach state: a room or race config
+// comes from another player's client, so it may be from an older build or malformed.
+type RelayMessage = { [field: string]: unknown };
+
+const isRacePlayer = (value: unknown): value is RacePlayer => {
+  if (typeof value !== "object" || value === null) return false;
+  const player = value as RelayMessage;
+  return typeof player.id === "number" && typeof player.name === "string"
+    && typeof player.connected === "boolean" && typeof player.racing === "boolean" && typeof player.done === "boolean"
+    && typeof player.score === "number" && typeof player.lives === "number"
+    && typeof player.bombsCleared === "number" && typeof player.timeMs === "number";
+};
+
+const isRace = (value: unknown): value is { id: number; config: GameConfig } => {
+  if (typeof value !== "object" || value === null) return false;
+  const race = value as RelayMessage;
+  return typeof race.id === "number" && isGameConfig(race.config);
+};
+
+const isRaceRoomState = (message: RelayMessage): message is RelayMessage & RaceRoomState =>
+  typeof message.code === "string" && typeof message.hostId === "number"
+  && (message.phase === 'lobby' || message.phase === 'racing')
+  && (message.race === null || isRace(message.race))
+  && Array.isArray(message.players) && message.players.every(isRacePlayer);
+
+// The progress fields of a forwarded `progress` message; missing ones are left alone.
+const raceProgressUpdate = (message: RelayMessage): Partial<RacePlayer> => {
+  const update: Partial<RacePlayer> = {};
+  if (typeof message.score === "number") update.score = message.score;
+  if (typeof message.lives === "number") update.lives = message.lives;
+  if (typeof message.bombsCleared === "number") update.bombsCleared = message.bombsCleared;
+  if (typeof message.timeMs === "number") update.timeMs = message.timeMs;
+  if (typeof message.done === "boolean") update.done = message.done;
+  return update;
+};
+
+const loadRelaySettings = (): { url: string; room: string } => {
+  const defaults = { url: `ws://${window.location.hostname || "localhost"}:${RELAY_PORT}`, room: "" };
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(RELAY_STORAGE_KEY) || "{}") };
+  } catch (e) {
+    console.error("Failed to parse relay settings from localStorage", e);
+    return defaults;
+  }
+};
+
+interface RaceStandingsProps {
+  players: RacePlayer[];
+  challenge: Challenge;
+  myId: number | null;
+  t: Translate;
+}
+
+const RaceStandings: React.FC<RaceStandingsProps> = ({ players, challenge, myId, t }) => {
+  const leaderScore = Math.max(0, ...players.map((p) => p.score));
+  return (
+    <div className="space-y-3">
+      {[...players].sort(compareRacers(challenge)).map((player, i) => (
+        <div key={player.id}>
+          <div className="flex justify-between text-sm font-semibold text-gray-800">
+            <span className={player.id === myId ? 'text-blue-700' : ''}>
+              {i + 1}. {player.name}{player.done && " 🏁"}{!player.connected && ` ${t("race.left")}`}
+            </span>
+            <span>
+              {challenge === 'clear'
+                ? player.bombsCleared >= CLEAR_TARGET ? `${(player.timeMs / 1000).toFixed(1)}s` : `${player.bombsCleared}/${CLEAR_TARGET}`
+                : t("board.points", { score: player.score })}
+            </span>
+          </div>
+          <div className="h-3 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-3 rounded-full ${player.connected ? 'bg-green-500' : 'bg-gray-400'}`}
+              style={{ width: `${raceProgress(player, challenge, leaderScore) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface RaceRoomProps {
+  mode: 'en' | 'zh';
+  // The host's drill: the pool every racer gets if this player starts the race.
+  pool: string[];
+  lessonTitle: string;
+  layoutIds: { en: string; zh: string };
+  playerName: string;
+  sound: SoundEngine;
+  drawOptions: DrawOptions;
+  i18n: I18n;
+  onClose: () => void;
+}
+
+const RaceRoom: React.FC<RaceRoomProps> = ({ mode, pool, lessonTitle, layoutIds, playerName, sound, drawOptions, i18n, onClose }) => {
+  const { t } = i18n;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawOptionsRef = useRef(drawOptions);
+  drawOptionsRef.current = drawOptions;
+  const socketRef = useRef<WebSocket | null>(null);
+  const engineRef = useRef<GameState | null>(null);
+  const raceIdRef = useRef(0);
+  // Engine time of the last progress report sent to the relay.
+  const reportedAtRef = useRef(0);
+  const pendingKeysRef = useRef<string[]>([]);
+  const [relay, setRelay] = useState(loadRelaySettings);
+  const [name, setName] = useState(playerName);
+  const [status, setStatus] = useState<RelayStatus>('offline');
+  const [error, setError] = useState<string | null>(null);
+  const [room, setRoom] = useState<RaceRoomState | null>(null);
+  const [myId, setMyId] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [countdown, setCountdown] = useCountdown(sound);
+  const [hud, setHud] = useState({ score: 0, lives: STARTING_LIVES, bombsCleared: 0, timeMs: 0 });
+  const [activeParts, setActiveParts] = useState<string[]>([]);
+  const [raceChallenge, setRaceChallenge] = useState<Challenge>('sprint');
+  const [difficultyIndex, setDifficultyIndex] = useState(1);
+
+  const send = (message: object) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const sendProgress = (state: GameState) => send({
+    type: 'progress',
+    raceId: raceIdRef.current,
+    score: state.score,
+    lives: state.lives,
+    bombsCleared: state.bombsCleared,
+    timeMs: Math.round(state.time),
+    done: state.gameOver
+  });
+
+  const handleMessage = (data: unknown) => {
+    if (typeof data !== "object" || data === null) return;
+    const message = data as RelayMessage;
+    if (message.type === 'welcome') {
+      if (typeof message.id === "number") setMyId(message.id);
+    } else if (message.type === 'room') {
+      if (!isRaceRoomState(message)) {
+        console.error("Ignoring malformed room state from the relay", message);
+        return;
+      }
+      const { code, hostId, phase, race, players } = message;
+      setRoom({ code, hostId, phase, race, players });
+    } else if (message.type === 'start') {
+      if (!isRace(message.race)) {
+        setError(t("race.unplayable"));
+        return;
+      }
+      const { config } = message.race;
+      // Each racer plays on their own keyboard layout.
+      engineRef.current = createGameState({ ...config, layout: layoutIds[config.mode], clockStart: Date.now() }, {});
+      raceIdRef.current = message.race.id;
+      reportedAtRef.current = 0;
+      pendingKeysRef.current = [];
+      setHud({ score: 0, lives: STARTING_LIVES, bombsCleared: 0, timeMs: 0 });
+      setActiveParts([]);
+      setError(null);
+      setCountdown(Math.ceil((typeof message.countdownMs === "number" ? message.countdownMs : RESUME_COUNTDOWN * 1000) / 1000));
+      setPlaying(true);
+    } else if (message.type === 'progress') {
+      const { id } = message;
+      const progress = raceProgressUpdate(message);
+      setRoom((prev) => prev && { ...prev, players: prev.players.map((p) => (p.id === id ? { ...p, ...progress } : p)) });
+    } else if (message.type === 'error') {
+      if (typeof message.message === "string") setError(message.message);
+    }
+  };
+  const handleMessageRef = useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
+
+  const connect = () => {
+    try {
+      localStorage.setItem(RELAY_STORAGE_KEY, JSON.stringify(relay));
+    } catch (e) {
+      console.error("Failed to save relay settings to localStorage", e);
+    }
+    sound.unlock();
+    setError(null);
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(relay.url);
+    } catch (e) {
+      setError(t("race.badAddress"));
+      return;
+    }
+    socketRef.current = socket;
+    setStatus('connecting');
+    socket.onopen = () => {
+      setStatus('online');
+      socket.send(JSON.stringify({ type: 'join', room: relay.room.trim(), name: name.trim() }));
+    };
+    socket.onmessage = (e) => {
+      try {
+        handleMessageRef.current(JSON.parse(e.data));
+      } catch (err) {
+        console.error("Failed to handle relay message", err);
+      }
+    };
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      setStatus('offline');
+      setMyId(null);
+      // A round in progress carries on offline; the rest of the room just stops seeing it.
+      setError(engineRef.current && !engineRef.current.gameOver
+        ? t("race.connectionLost")
+        : t("race.unreachable"));
+    };
+  };
+
+  const disconnect = () => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    setStatus('offline');
+    setRoom(null);
+    setMyId(null);
+  };
+
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  // A race can't be paused, so there is no pause-on-blur here.
+  useFixedStepLoop(playing && countdown <= 0, sound, (steps) => {
+    let state = engineRef.current;
+    if (!state) return false;
+    const events: GameEvent[] = [];
+    for (let i = 0; i < steps && !state.gameOver; i++) {
+      state = stepGame(state, STEP_MS, pendingKeysRef.current);
+      pendingKeysRef.current = [];
+      events.push(...state.events);
+    }
+    engineRef.current = state;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx) drawGame(ctx, state, null, drawOptionsRef.current);
+    if (events.some((e) => e.type === 'hit')) sound.play('hit');
+    if (events.some((e) => e.type === 'wrong-key' || e.type === 'decoy' || e.type === 'landed')) sound.play('miss');
+    setHud({ score: state.score, lives: state.lives, bombsCleared: state.bombsCleared, timeMs: Math.floor(state.time / 1000) * 1000 });
+    setActiveParts(nextParts(state.bombs));
+    if (state.gameOver || state.time - reportedAtRef.current >= RACE_PROGRESS_MS) {
+      sendProgress(state);
+      reportedAtRef.current = state.time;
+    }
+    if (state.gameOver) {
+      sound.play('game-over');
+      setPlaying(false);
+      return false;
+    }
+    return true;
+  });
+
+  useEffect(() => {
+    if (!playing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = eventKey(e);
+      if (countdown > 0 || key === undefined) return;
+      if (key === ' ') e.preventDefault();
+      pendingKeysRef.current.push(key);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [playing, countdown]);
+
+  const startRace = () => {
+    const config: GameConfig = {
+      mode,
+      pool,
+      difficultyIndex,
+      adaptive: false,
+      seed: Math.floor(Math.random() * 2 ** 32),
+      clockStart: 0,
+      specials: true,
+      sharedSpawns: true,
+      challenge: raceChallenge
+    };
+    send({ type: 'start', config, countdownMs: RESUME_COUNTDOWN * 1000 });
+  };
+
+  const leave = () => {
+    disconnect();
+    onClose();
+  };
+
+  const race = room?.race;
+  const challenge = race ? challengeOf(race.config) : raceChallenge;
+  const isHost = !!room && room.hostId === myId;
+  const racers = room ? room.players.filter((p) => p.racing) : [];
+
+  if (playing && engineRef.current) {
+    const layout = layoutById(engineRef.current.config.layout, engineRef.current.config.mode);
+    return (
+      <div className="p-4 flex flex-col items-center">
+        {error && <p className="mb-2 text-red-600 font-semibold">{error}</p>}
+        <div className="flex items-start">
+          <div className="flex flex-col items-center">
+            <div className="w-[400px] flex justify-between items-center px-4 py-2 bg-white shadow-md rounded-lg mb-2 font-extrabold select-none">
+              {CHALLENGES[challenge].lives && <span className="text-red-600 text-2xl">❤️ {hud.lives}</span>}
+              <span className="text-blue-600 text-2xl">🏆 {hud.score}</span>
+              {challenge === 'clear'
+                ? <span className="text-green-700 text-2xl">{Math.min(hud.bombsCleared, CLEAR_TARGET)}/{CLEAR_TARGET} · {formatClock(hud.timeMs)}</span>
+                : <span className="text-green-700 text-2xl">{formatClock(SPRINT_MS - hud.timeMs)}</span>}
+            </div>
+            <div className="relative">
+              <canvas ref={canvasRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="bg-gray-900 border-4 border-gray-700 rounded-lg shadow-2xl" />
+              {countdown > 0 && (
+                <div className="absolute inset-0 flex justify-center items-center bg-black/70 rounded-lg text-white">
+                  <span className="text-8xl font-extrabold animate-pulse">{countdown}</span>
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="w-64 ml-6 bg-white shadow-md rounded-lg p-4">
+            <h2 className="text-lg font-bold mb-3 text-gray-800">{t("race.room", { code: room?.code ?? "" })}</h2>
+            <RaceStandings players={racers} challenge={challenge} myId={myId} t={t} />
+          </div>
+        </div>
+        <div className="mt-4">
+          <Keyboard activeKeys={activeKeySet(layout, activeParts)} layout={layout} t={t} />
+        </div>
+      </div>
+    );
+  }
+
+  if (status !== 'online' || !room) {
+    return (
+      <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center">
+        <h1 className="text-4xl font-extrabold text-blue-700 mb-4">{t("race.title")}</h1>
+        <p className="text-lg text-gray-700 mb-6 max-w-xl">{t("race.intro")}</p>
+        {error && <p className="mb-4 text-red-600 font-semibold">{error}</p>}
+        <div className="w-full max-w-md space-y-3 mb-6">
+          <input
+            className="w-full border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={relay.url}
+            onChange={(e) => setRelay({ ...relay, url: e.target.value })}
+            placeholder={t("race.addressPlaceholder", { port: RELAY_PORT })}
+          />
+          <input
+            className="w-full border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={relay.room}
+            maxLength={20}
+            onChange={(e) => setRelay({ ...relay, room: e.target.value })}
+            placeholder={t("race.roomPlaceholder")}
+          />
+          <input
+            className="w-full border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={name}
+            maxLength={20}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("race.namePlaceholder")}
+          />
+        </div>
+        <div className="space-x-4">
+          <Button
+            className="px-10 py-3 text-xl bg-blue-600 hover:bg-blue-700"
+            onClick={connect}
+            disabled={status === 'connecting' || !relay.url.trim() || !relay.room.trim()}
+          >
+            {status === 'connecting' ? t("race.connecting") : t("race.join")}
+          </Button>
+          <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700" onClick={leave}>{t("common.back")}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const host = room.players.find((p) => p.id === room.hostId);
+  return (
+    <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center">
+      <h1 className="text-4xl font-extrabold text-blue-700 mb-2">{t("race.room", { code: room.code })}</h1>
+      <p className="text-gray-600 mb-6">{t("race.host", { name: host?.name ?? "" })}</p>
+      {error && <p className="mb-4 text-red-600 font-semibold">{error}</p>}
+      <div className="w-full max-w-md bg-white shadow-md rounded-lg p-4 mb-6 text-left">
+        {room.phase === 'racing' ? (
+          <>
+            <h2 className="text-lg font-bold mb-3 text-gray-800">{t("race.inProgress")}</h2>
+            <RaceStandings players={racers} challenge={challenge} myId={myId} t={t} />
+          </>
+        ) : racers.length > 0 ? (
+          <>
+            <h2 className="text-lg font-bold mb-3 text-gray-800">{t("race.results")}</h2>
+            <RaceStandings players={racers} challenge={challenge} myId={myId} t={t} />
+          </>
+        ) : (
+          <p className="text-gray-600">{t("race.waitingFirst")}</p>
+        )}
+        <h2 className="text-lg font-bold mt-6 mb-2 text-gray-800">{t("race.players", { count: room.players.filter((p) => p.connected).length })}</h2>
+        <ul className="text-gray-800">
+          {room.players.filter((p) => p.connected).map((p) => (
+            <li key={p.id} className={p.id === myId ? 'font-bold text-blue-700' : ''}>
+              {p.id === room.hostId && "👑 "}{p.name}{room.phase === 'racing' && !p.racing && ` ${t("race.joinsNext")}`}
+            </li>
+          ))}
+        </ul>
+      </div>
+      {isHost ? (
+        <div className="mb-6">
+          <p className="mb-2 text-gray-700">{t("game.drill")} <span className="font-bold">{lessonTitle}</span></p>
+          <div className="flex justify-center space-x-4 mb-4">
+            {RACE_CHALLENGES.map((c) => (
+              <Button
+                key={c}
+                className={`px-6 py-2 text-lg ${raceChallenge === c ? 'bg-blue-600' : 'bg-gray-500 hover:bg-gray-600'}`}
+                onClick={() => setRaceChallenge(c)}
+                title={t(`challenge.${c}.description`, { target: CLEAR_TARGET })}
+              >
+                {t(`challenge.${c}.name`, { target: CLEAR_TARGET })}
+              </Button>
+            ))}
+          </div>
+          <div className="flex justify-center space-x-4 flex-wrap gap-y-4 mb-4">
+            {difficulties.map((level, i) => (
+              <Button
+                key={level.name}
+                className={`px-6 py-2 text-lg ${difficultyIndex === i ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-800'}`}
+                onClick={() => setDifficultyIndex(i)}
+              >
+                {difficultyName(t, level.name)}
+              </Button>
+            ))}
+          </div>
+          {room.phase === 'racing' ? (
+            <Button className="px-8 py-3 text-xl bg-red-500 hover:bg-red-600" onClick={() => send({ type: 'end' })}>{t("race.end")}</Button>
+          ) : (
+            <Button className="px-10 py-4 text-2xl bg-green-500 hover:bg-green-600 shadow-lg" onClick={startRace}>{t("race.start")}</Button>
+          )}
+        </div>
+      ) : (
+        room.phase === 'lobby' && <p className="mb-6 text-xl text-gray-700 animate-pulse">{t("race.waitingHost")}</p>
+      )}
+      <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700" onClick={leave}>{t("race.leave")}</Button>
+    </div>
+  );
+};
+
+// --- Teacher Dashboard ---
+
+// A class view over every player's session history on this device, plus
+// whatever other devices have uploaded to the relay in server/relay.js.
+
+// A student as the dashboard sees them: a local profile, a guest name from
+// the old shared history, or a student uploaded from another device.
+type ClassStudent = {
+  id: string;
+  name: string;
+  avatar: string;
+  sessions: SessionSummary[];
+  // Upload id of the device the student came from; missing for local students.
+  device?: string;
+};
+
+type TeacherSettings = {
+  passwordHash: string;
+  className: string;
+  // Report endpoint of the relay, e.g. http://192.168.1.20:8787.
+  syncUrl: string;
+  deviceId: string;
+};
+
+const TEACHER_STORAGE_KEY = "teacher";
+const TREND_SESSIONS = 20;
+const RECENT_SESSIONS = 10;
+const CLASS_WEAK_KEYS = 8;
+
+// The password only keeps curious kids out of the dashboard; everything it
+// guards is in this browser's local storage anyway. A plain string hash (not
+// SubtleCrypto) keeps it working on plain-http classroom addresses.
+const hashPassword = (password: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (const ch of `typing-bomb:${password}`) {
+    const code = ch.codePointAt(0) || 0;
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `${(h2 >>> 0).toString(16)}${(h1 >>> 0).toString(16)}`;
+};
+
+// A student from a downloaded class report. Their sessions must all check
+// out, or the class totals would be off.
+const isClassStudent = (value: unknown): value is ClassStudent & { device: string } => {
+  if (typeof value !== "object" || value === null) return false;
+  const data = value as { [field: string]: unknown };
+  return typeof data.id === "string" && typeof data.name === "string" && typeof data.avatar === "string"
+    && typeof data.device === "string" && Array.isArray(data.sessions) && data.sessions.every(isSessionSummary);
+};
+
+const loadTeacherSettings = (): TeacherSettings => {
+  const defaults = {
+    passwordHash: "",
+    className: "",
+    syncUrl: `http://${window.location.hostname || "localhost"}:${RELAY_PORT}`,
+    deviceId: Math.random().toString(36).slice(2, 10)
+  };
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(TEACHER_STORAGE_KEY) || "{}") };
+  } catch (e) {
+    console.error("Failed to parse teacher settings from localStorage", e);
+    return defaults;
+  }
+};
+
+const saveTeacherSettings = (settings: TeacherSettings) => {
+  try {
+    localStorage.setItem(TEACHER_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save teacher settings to localStorage", e);
+  }
+};
+
+const localStudents = (profiles: PlayerProfile[], guestHistory: { [player: string]: SessionSummary[] }): ClassStudent[] => [
+  ...profiles.map((p) => ({ id: p.id, name: p.name, avatar: p.avatar, sessions: p.sessions })),
+  ...Object.entries(guestHistory)
+    .filter(([name]) => !profiles.some((p) => sameName(p.name, name)))
+    .map(([name, sessions]) => ({ id: `guest:${name}`, name, avatar: "👤", sessions }))
+];
+
+const combinedKeyStats = (sessions: SessionSummary[]) => {
+  const keys: { [key: string]: KeyStat } = {};
+  sessions.forEach((session) => Object.entries(session.keys).forEach(([key, stat]) => {
+    const total = keys[key] || { hits: 0, misses: 0, reactionMs: 0 };
+    keys[key] = { hits: total.hits + stat.hits, misses: total.misses + stat.misses, reactionMs: total.reactionMs + stat.reactionMs };
+  }));
+  return keys;
+};
+
+// Averages over a student's most recent rounds.
+const recentAverages = (sessions: SessionSummary[]) => {
+  const recent = sessions.slice(-RECENT_SESSIONS);
+  const average = (value: (s: SessionSummary) => number) =>
+    recent.length > 0 ? recent.reduce((sum, s) => sum + value(s), 0) / recent.length : 0;
+  return { accuracy: average((s) => s.accuracy), kpm: average((s) => s.kpm) };
+};
+
+const sessionsCsv = (students: ClassStudent[]) => [
+  "student,date,mode,lesson,difficulty,challenge,score,accuracy,kpm,duration_s",
+  ...students.flatMap((student) => student.sessions.map((s) => [
+    csvQuote(student.name), s.date, s.mode, csvQuote(s.lesson), csvQuote(s.difficulty), s.challenge || 'survival',
+    s.score, Math.round(s.accuracy * 100) / 100, Math.round(s.kpm), Math.round(s.durationMs / 1000)
+  ].join(",")))
+].join("\n");
+
+const summaryCsv = (students: ClassStudent[]) => [
+  "student,sessions,last_played,recent_accuracy,recent_kpm,best_score",
+  ...students.map((student) => {
+    const { accuracy, kpm } = recentAverages(student.sessions);
+    const last = student.sessions[student.sessions.length - 1];
+    return [
+      csvQuote(student.name), student.sessions.length, last ? last.date : "",
+      Math.round(accuracy * 100) / 100, Math.round(kpm), Math.max(0, ...student.sessions.map((s) => s.score))
+    ].join(",");
+  })
+].join("\n");
+
+interface TrendChartProps {
+  title: string;
+  values: number[];
+  // Stroke colour of the line.
+  color: string;
+  format: (value: number) => string;
+  t: Translate;
+}
+
+const TrendChart: React.FC<TrendChartProps> = ({ title, values, color, format, t }) => {
+  const width = 320;
+  const height = 120;
+  const max = Math.max(1, ...values);
+  const points = values.map((v, i) =>
+    `${values.length > 1 ? (i / (values.length - 1)) * width : width / 2},${height - (v / max) * (height - 10) - 5}`);
+  return (
+    <div className="bg-white p-4 rounded-xl shadow border border-gray-200">
+      <h3 className="text-lg font-bold text-gray-800">{title}</h3>
+      {values.length === 0 ? <p className="text-gray-500">{t("teacher.noRounds")}</p> : (
+        <>
+          <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32">
+            <line x1={0} y1={height - 5} x2={width} y2={height - 5} stroke="#e5e7eb" />
+            <polyline fill="none" stroke={color} strokeWidth={3} points={points.join(" ")} />
+            {points.map((p, i) => {
+              const [x, y] = p.split(",");
+              return <circle key={i} cx={x} cy={y} r={3} fill={color} />;
+            })}
+          </svg>
+          <p className="text-sm text-gray-500">
+            {t("teacher.trend", { last: format(values[values.length - 1]), best: format(Math.max(...values)) })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface TeacherDashboardProps {
+  profiles: PlayerProfile[];
+  guestHistory: { [player: string]: SessionSummary[] };
+  packs: LessonPack[];
+  i18n: I18n;
+  onProfilesChange: (profiles: PlayerProfile[]) => void;
+  onClose: () => void;
+}
+
+const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ profiles, guestHistory, packs, i18n, onProfilesChange, onClose }) => {
+  const { t } = i18n;
+  const [settings, setSettings] = useState(loadTeacherSettings);
+  const [unlocked, setUnlocked] = useState(false);
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState("");
+  const [view, setView] = useState<'roster' | 'print'>('roster');
+  const [studentId, setStudentId] = useState<string | null>(null);
+  const [mode, setMode] = useState<'en' | 'zh'>('en');
+  const [remote, setRemote] = useState<ClassStudent[]>([]);
+  const [syncStatus, setSyncStatus] = useState("");
+
+  const updateSettings = (next: TeacherSettings) => {
+    setSettings(next);
+    saveTeacherSettings(next);
+  };
+
+  const local = localStudents(profiles, guestHistory);
+  // Students synced from other devices fill in whoever isn't on this one.
+  const students = [...local, ...remote.filter((r) => !local.some((l) => l.id === r.id))];
+  const layout = layoutById(undefined, mode);
+  const classKeys = combinedKeyStats(students.flatMap((s) => s.sessions.filter((session) => session.mode === mode)));
+  const classWeakKeys = Object.entries(missRates(classKeys))
+    .filter(([key]) => classKeys[key].misses > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CLASS_WEAK_KEYS);
+
+  const setNewPassword = () => {
+    if (password.length < 4) {
+      setError(t("teacher.passwordTooShort", { min: 4 }));
+      return;
+    }
+    if (password !== confirmation) {
+      setError(t("teacher.passwordMismatch"));
+      return;
+    }
+    updateSettings({ ...settings, passwordHash: hashPassword(password) });
+    setPassword("");
+    setConfirmation("");
+    setError("");
+    setUnlocked(true);
+  };
+
+  const unlock = () => {
+    if (hashPassword(password) !== settings.passwordHash) {
+      setError(t("teacher.wrongPassword"));
+      return;
+    }
+    setPassword("");
+    setError("");
+    setUnlocked(true);
+  };
 
-  return (
-    <div
-      className="absolute text-green-400 font-bold text-2xl pointer-events-none animate-float-up"
-      style={{ left: `${x}px`, top: `${y}px`, transform: 'translateX(-50%)' }}
-    >
-      {value}
-    </div>
-  );
-};
+  const toggleAssignment = (profile: PlayerProfile, packId: string) => {
+    const assigned = profile.assignedPacks || [];
+    const next = assigned.includes(packId) ? assigned.filter((id) => id !== packId) : [...assigned, packId];
+    onProfilesChange(profiles.map((p) => (p.id === profile.id ? { ...p, assignedPacks: next } : p)));
+  };
 
+  const classCode = settings.className.trim().replace(/[^A-Za-z0-9-]/g, "-").slice(0, 40);
+  const syncEndpoint = `${settings.syncUrl.replace(/\/+$/, "")}/class/${classCode}`;
+  // The relay only shares a class with devices that send its token, which is
+  // derived from the teacher password so every teacher device agrees on it.
+  const syncAuth = { Authorization: `Bearer ${hashPassword(`${settings.passwordHash}:${classCode}`)}` };
 
-// --- Keyboard Component ---
+  const upload = async () => {
+    setSyncStatus(t("teacher.uploading"));
+    try {
+      const response = await fetch(`${syncEndpoint}/${settings.deviceId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...syncAuth },
+        body: JSON.stringify({ students: local.map((s) => ({ ...s, device: settings.deviceId })) })
+      });
+      setSyncStatus(response.ok ? t("teacher.uploaded", { count: local.length })
+        : response.status === 403 ? t("teacher.wrongClassPassword")
+        : t("teacher.uploadFailed", { status: response.status }));
+    } catch (e) {
+      console.error("Failed to upload class report", e);
+      setSyncStatus(t("teacher.unreachable"));
+    }
+  };
 
-const KEYBOARD_LAYOUT = [
-    [
-        { key: '`', zh: '`' }, { key: '1', zh: 'ㄅ' }, { key: '2', zh: 'ㄉ' }, { key: '3', zh: 'ˇ' },
-        { key: '4', zh: 'ˋ' }, { key: '5', zh: 'ㄓ' }, { key: '6', zh: 'ˊ' }, { key: '7', zh: '˙' },
-        { key: '8', zh: 'ㄚ' }, { key: '9', zh: 'ㄞ' }, { key: '0', zh: 'ㄢ' }, { key: '-', zh: 'ㄦ' }, { key: '=', zh: '=' }
-    ],
-    [
-        { key: 'Q', zh: 'ㄆ' }, { key: 'W', zh: 'ㄊ' }, { key: 'E', zh: 'ㄍ' }, { key: 'R', zh: 'ㄐ' },
-        { key: 'T', zh: 'ㄔ' }, { key: 'Y', zh: 'ㄗ' }, { key: 'U', zh: 'ㄧ' }, { key: 'I', zh: 'ㄛ' },
-        { key: 'O', zh: 'ㄟ' }, { key: 'P', zh: 'ㄣ' }, { key: '[', zh: '[' }, { key: ']', zh: ']' }
-    ],
-    [
-        { key: 'A', zh: 'ㄇ' }, { key: 'S', zh: 'ㄋ' }, { key: 'D', zh: 'ㄎ' }, { key: 'F', zh: 'ㄑ' },
-        { key: 'G', zh: 'ㄕ' }, { key: 'H', zh: 'ㄘ' }, { key: 'J', zh: 'ㄨ' }, { key: 'K', zh: 'ㄜ' },
-        { key: 'L', zh: 'ㄠ' }, { key: ';', zh: 'ㄤ' }, { key: "'", zh: "'" }
-    ],
-    [
-        { key: 'Z', zh: 'ㄈ' }, { key: 'X', zh: 'ㄌ' }, { key: 'C', zh: 'ㄏ' }, { key: 'V', zh: 'ㄒ' },
-        { key: 'B', zh: 'ㄖ' }, { key: 'N', zh: 'ㄙ' }, { key: 'M', zh: 'ㄩ' }, { key: ',', zh: 'ㄝ' },
-        { key: '.', zh: 'ㄡ' }, { key: '/', zh: 'ㄥ' }
-    ]
-];
+  const download = async () => {
+    setSyncStatus(t("teacher.downloading"));
+    try {
+      const response = await fetch(syncEndpoint, { headers: syncAuth });
+      if (!response.ok) {
+        setSyncStatus(response.status === 403 ? t("teacher.wrongClassPassword") : t("teacher.downloadFailed", { status: response.status }));
+        return;
+      }
+      const data: unknown = await response.json();
+      const students = typeof data === "object" && data !== null ? (data as { students?: unknown }).students : undefined;
+      // Entries that don't check out are dropped rather than failing the whole download.
+      const others = (Array.isArray(students) ? students : [])
+        .filter(isClassStudent)
+        .filter((s) => s.device !== settings.deviceId);
+      setRemote(others);
+      setSyncStatus(t("teacher.downloaded", { count: others.length }));
+    } catch (e) {
+      console.error("Failed to download class report", e);
+      setSyncStatus(t("teacher.unreachable"));
+    }
+  };
 
+  const fileStem = (settings.className.trim() || "class").replace(/[\\/:*?"<>|]/g, "_");
 
-interface KeyboardProps {
-    activeKeys: Set<string>;
-    mode: 'en' | 'zh';
-}
+  if (!unlocked) {
+    const creating = !settings.passwordHash;
+    return (
+      <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center">
+        <h1 className="text-4xl font-extrabold text-blue-700 mb-4">{t("teacher.title")}</h1>
+        <p className="text-lg text-gray-700 mb-6">{creating ? t("teacher.choosePassword") : t("teacher.enterPassword")}</p>
+        <div className="w-full max-w-sm space-y-3 mb-4">
+          <input
+            type="password"
+            className="w-full border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && !creating) unlock(); }}
+            placeholder={t("teacher.password")}
+            autoFocus
+          />
+          {creating && (
+            <input
+              type="password"
+              className="w-full border border-gray-400 p-2 rounded-lg text-gray-800"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder={t("teacher.repeatPassword")}
+            />
+          )}
+        </div>
+        {error && <p className="mb-4 text-red-600 font-semibold">{error}</p>}
+        <div className="space-x-4">
+          <Button className="px-8 py-3 text-xl bg-blue-600 hover:bg-blue-700" onClick={creating ? setNewPassword : unlock}>
+            {creating ? t("teacher.setPassword") : t("teacher.unlock")}
+          </Button>
+          <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700" onClick={onClose}>{t("common.back")}</Button>
+        </div>
+      </div>
+    );
+  }
 
-const Keyboard: React.FC<KeyboardProps> = ({ activeKeys, mode }) => {
+  if (view === 'print') {
     return (
-        <div className="keyboard">
-            {KEYBOARD_LAYOUT.map((row, rowIndex) => (
-                <div key={rowIndex} className="keyboard-row">
-                    {row.map(({ key, zh }) => {
-                        const isActive = mode === 'en'
-                            ? activeKeys.has(key.toUpperCase())
-                            : activeKeys.has(zh);
+      <div className="p-8 w-full max-w-4xl bg-white text-gray-900">
+        <h1 className="text-3xl font-extrabold mb-1">{t("teacher.printTitle", { className: settings.className || t("teacher.defaultClass") })}</h1>
+        <p className="text-gray-600 mb-6">{i18n.formatDate(new Date().toISOString())} · {t("teacher.studentCount", { count: students.length })}</p>
+        <table className="w-full text-left mb-8 border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-800">
+              <th className="py-1">{t("teacher.student")}</th><th>{t("teacher.rounds")}</th><th>{t("teacher.lastPlayed")}</th>
+              <th>{t("stats.accuracy")}</th><th>{t("stats.kpmShort")}</th><th>{t("teacher.bestScore")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {students.map((student) => {
+              const { accuracy, kpm } = recentAverages(student.sessions);
+              const last = student.sessions[student.sessions.length - 1];
+              return (
+                <tr key={student.id} className="border-b border-gray-300">
+                  <td className="py-1">{student.name}</td>
+                  <td>{student.sessions.length}</td>
+                  <td>{last ? i18n.formatDate(last.date) : "—"}</td>
+                  <td>{student.sessions.length > 0 ? `${Math.round(accuracy * 100)}%` : "—"}</td>
+                  <td>{student.sessions.length > 0 ? Math.round(kpm) : "—"}</td>
+                  <td>{Math.max(0, ...student.sessions.map((s) => s.score))}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <h2 className="text-xl font-bold mb-2">{t("teacher.classMisses", { mode: t(`mode.${mode}`) })}</h2>
+        <p className="mb-8">
+          {classWeakKeys.length === 0 ? t("teacher.noMisses")
+            : classWeakKeys.map(([key, rate]) => `${keyLabel(t, key, layout)} (${Math.round(rate * 100)}%)`).join(" · ")}
+        </p>
+        <p className="text-sm text-gray-500 mb-6">{t("teacher.averagesNote", { count: RECENT_SESSIONS })}</p>
+        <div className="space-x-4 print:hidden">
+          <Button className="px-8 py-3 text-lg bg-blue-600 hover:bg-blue-700" onClick={() => window.print()}>{t("teacher.print")}</Button>
+          <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700" onClick={() => setView('roster')}>{t("common.back")}</Button>
+        </div>
+      </div>
+    );
+  }
 
-                        return (
-                            <div key={key} className={`keyboard-key ${isActive ? 'highlight' : ''}`}>
-                                {mode === 'zh' && <span className="zh-char">{zh}</span>}
-                                <span className="en-char">{key}</span>
-                            </div>
-                        );
-                    })}
-                </div>
-            ))}
+  const student = students.find((s) => s.id === studentId);
+  if (student) {
+    const profile = profiles.find((p) => p.id === student.id);
+    const trend = student.sessions.slice(-TREND_SESSIONS);
+    const weak = mostMissedKeys(combinedKeyStats(student.sessions.filter((s) => s.mode === mode)));
+    return (
+      <div className="p-4 w-full max-w-3xl flex flex-col items-center">
+        <h1 className="text-4xl font-extrabold text-blue-700 mb-6"><span className="mr-2">{student.avatar}</span>{student.name}</h1>
+        <div className="grid grid-cols-2 gap-4 w-full mb-6">
+          <TrendChart title={t("stats.accuracy")} values={trend.map((s) => s.accuracy * 100)} color="#15803d" format={(v) => `${Math.round(v)}%`} t={t} />
+          <TrendChart title={t("stats.kpm")} values={trend.map((s) => s.kpm)} color="#1d4ed8" format={(v) => `${Math.round(v)}`} t={t} />
+        </div>
+        <div className="w-full bg-white p-4 rounded-xl shadow border border-gray-200 mb-6">
+          <h2 className="text-xl font-bold mb-2 text-gray-800">{t("stats.mostMissed")}</h2>
+          {weak.length === 0 ? <p className="text-gray-500">{t("teacher.noMisses")}</p> : (
+            <p>{weak.map(({ key, misses }) => `${keyLabel(t, key, layout)} (${misses})`).join(" · ")}</p>
+          )}
         </div>
+        {profile && (
+          <div className="w-full bg-white p-4 rounded-xl shadow border border-gray-200 mb-6">
+            <h2 className="text-xl font-bold mb-2 text-gray-800">{t("teacher.assignedTitle")}</h2>
+            {packs.length === 0 ? <p className="text-gray-500">{t("teacher.noPacks")}</p> : (
+              packs.map((pack) => (
+                <label key={pack.id} className="block text-gray-800">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={(profile.assignedPacks || []).includes(pack.id)}
+                    onChange={() => toggleAssignment(profile, pack.id)}
+                  />
+                  {pack.name} <span className="text-sm text-gray-500">({t(`mode.${pack.mode}`)})</span>
+                </label>
+              ))
+            )}
+          </div>
+        )}
+        <div className="w-full bg-white p-4 rounded-xl shadow border border-gray-200">
+          <h2 className="text-xl font-bold mb-2 text-gray-800">{t("teacher.recentRounds")}</h2>
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-gray-500 text-sm"><th>{t("stats.date")}</th><th>{t("stats.lesson")}</th><th>{t("stats.score")}</th><th>{t("stats.accuracy")}</th><th>{t("stats.kpmShort")}</th></tr>
+            </thead>
+            <tbody>
+              {student.sessions.slice(-RECENT_SESSIONS).reverse().map((session, i) => (
+                <tr key={i} className="border-t">
+                  <td>{i18n.formatDate(session.date)}</td>
+                  <td>{lessonName(t, session.lesson)}</td>
+                  <td>{session.score}</td>
+                  <td>{Math.round(session.accuracy * 100)}%</td>
+                  <td>{Math.round(session.kpm)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <Button className="mt-6 px-8 py-3 text-lg bg-gray-600 hover:bg-gray-700" onClick={() => setStudentId(null)}>{t("teacher.backToClass")}</Button>
+      </div>
     );
-};
+  }
 
+  return (
+    <div className="p-4 w-full max-w-4xl flex flex-col items-center">
+      <h1 className="text-4xl font-extrabold text-blue-700 mb-4">{t("teacher.title")}</h1>
+      <label className="mb-6 text-lg text-gray-700">
+        {t("teacher.class")}
+        <input
+          className="ml-2 border border-gray-400 p-2 rounded-lg text-gray-800"
+          value={settings.className}
+          maxLength={40}
+          onChange={(e) => updateSettings({ ...settings, className: e.target.value })}
+          placeholder={t("teacher.classPlaceholder")}
+        />
+      </label>
 
-// --- Game Constants ---
+      <div className="w-full bg-white p-4 rounded-xl shadow-lg border border-gray-200 mb-6">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800">{t("teacher.roster")}</h2>
+        {students.length === 0 ? <p className="text-gray-500">{t("teacher.noStudents")}</p> : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-gray-500 text-sm">
+                <th>{t("teacher.student")}</th><th>{t("teacher.rounds")}</th><th>{t("teacher.lastPlayed")}</th>
+                <th>{t("stats.accuracy")}</th><th>{t("stats.kpmShort")}</th><th>{t("teacher.assignedPacks")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {students.map((s) => {
+                const { accuracy, kpm } = recentAverages(s.sessions);
+                const last = s.sessions[s.sessions.length - 1];
+                const assigned = profiles.find((p) => p.id === s.id)?.assignedPacks || [];
+                return (
+                  <tr
+                    key={s.id}
+                    className="border-t hover:bg-blue-50 focus:bg-blue-50 cursor-pointer"
+                    tabIndex={0}
+                    onClick={() => setStudentId(s.id)}
+                    onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); setStudentId(s.id); } }}
+                  >
+                    <td className="py-2"><span className="mr-2">{s.avatar}</span>{s.name}{s.device && <span className="ml-1 text-xs text-gray-500">{t("teacher.synced")}</span>}</td>
+                    <td>{s.sessions.length}</td>
+                    <td>{last ? i18n.formatDate(last.date) : "—"}</td>
+                    <td>{s.sessions.length > 0 ? `${Math.round(accuracy * 100)}%` : "—"}</td>
+                    <td>{s.sessions.length > 0 ? Math.round(kpm) : "—"}</td>
+                    <td className="text-sm">{packs.filter((p) => assigned.includes(p.id)).map((p) => p.name).join(", ") || "—"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <p className="mt-2 text-sm text-gray-500">{t("teacher.rosterHint")}</p>
+      </div>
 
-const CHAR_SETS = {
-  en: "ABCDEFGHIJKLMNOPQRSTUVWXYZ1234567890",
-  zh: "ㄅㄆㄇㄈㄉㄊㄋㄌㄍㄎㄏㄐㄑㄒㄓㄔㄕㄖㄗㄘㄙㄧㄨㄩㄚㄛㄜㄝㄞㄟㄠㄡㄢㄣㄤㄥㄦ"
-};
-
-const ZHUYIN_KEY_MAP: { [key: string]: string } = {
-  'ㄅ': '1', 'ㄆ': 'Q', 'ㄇ': 'A', 'ㄈ': 'Z', 'ㄉ': '2',
-  'ㄊ': 'W', 'ㄋ': 'S', 'ㄌ': 'X', 'ㄍ': 'E', 'ㄎ': 'D',
-  'ㄏ': 'C', 'ㄐ': 'R', 'ㄑ': 'F', 'ㄒ': 'V', 'ㄓ': '5',
-  'ㄔ': 'T', 'ㄕ': 'G', 'ㄖ': 'B', 'ㄗ': 'Y', 'ㄘ': 'H',
-  'ㄙ': 'N', 'ㄧ': 'U', 'ㄨ': 'J', 'ㄩ': 'M', 'ㄚ': '8',
-  'ㄛ': 'I', 'ㄜ': 'K', 'ㄝ': ',', 'ㄞ': '9', 'ㄟ': 'O',
-  'ㄠ': 'L', 'ㄡ': '.', 'ㄢ': '0', 'ㄣ': 'P', 'ㄤ': ';',
-  'ㄥ': '/', 'ㄦ': '-',
-  'ˇ': '3', 'ˋ': '4', 'ˊ': '6', '˙': '7'
-};
-
-const difficulties = [
-  { name: "Very Easy", speed: 2200, count: 1 },
-  { name: "Easy", speed: 1800, count: 1 },
-  { name: "Normal", speed: 1500, count: 2 },
-  { name: "Hard", speed: 1200, count: 2 },
-  { name: "Very Hard", speed: 1000, count: 3 },
-];
+      <div className="w-full bg-white p-4 rounded-xl shadow-lg border border-gray-200 mb-6 flex flex-col items-center">
+        <div className="w-full flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-800">{t("teacher.struggles")}</h2>
+          <span className="space-x-2">
+            <Button className={`text-sm ${mode === 'en' ? 'bg-blue-600' : 'bg-gray-500'}`} onClick={() => setMode('en')}>{t("mode.en")}</Button>
+            <Button className={`text-sm ${mode === 'zh' ? 'bg-blue-600' : 'bg-gray-500'}`} onClick={() => setMode('zh')}>{t("mode.zh")}</Button>
+          </span>
+        </div>
+        {classWeakKeys.length === 0 ? <p className="text-gray-500">{t("teacher.noMisses")}</p> : (
+          <p className="mb-4 text-gray-800">
+            {classWeakKeys.map(([key, rate]) => (
+              <span key={key} className="mr-4"><span className="font-mono font-bold">{keyLabel(t, key, layout)}</span> {Math.round(rate * 100)}%</span>
+            ))}
+          </p>
+        )}
+        <Keyboard activeKeys={new Set()} layout={layout} heatmap={missRates(classKeys)} t={t} />
+      </div>
+
+      <div className="w-full bg-white p-4 rounded-xl shadow-lg border border-gray-200 mb-6">
+        <h2 className="text-2xl font-bold mb-2 text-gray-800">{t("teacher.syncTitle")}</h2>
+        <p className="text-sm text-gray-500 mb-4">{t("teacher.syncHelp")}</p>
+        <div className="flex space-x-2 mb-2">
+          <input
+            className="flex-1 border border-gray-400 p-2 rounded-lg text-gray-800"
+            value={settings.syncUrl}
+            onChange={(e) => updateSettings({ ...settings, syncUrl: e.target.value })}
+            placeholder={t("teacher.serverPlaceholder", { port: RELAY_PORT })}
+          />
+          <Button className="bg-teal-600 hover:bg-teal-700" onClick={upload} disabled={!classCode}>{t("teacher.upload")}</Button>
+          <Button className="bg-teal-600 hover:bg-teal-700" onClick={download} disabled={!classCode}>{t("teacher.download")}</Button>
+        </div>
+        {!classCode && <p className="text-sm text-gray-500">{t("teacher.nameClass")}</p>}
+        {syncStatus && <p className="text-gray-700">{syncStatus}</p>}
+      </div>
 
-type LeaderboardEntry = { name: string, score: number, date: string };
+      <div className="space-x-4">
+        <Button className="bg-green-600 hover:bg-green-700" onClick={() => downloadFile(`${fileStem}-sessions.csv`, sessionsCsv(students), "text/csv")}>{t("teacher.exportSessions")}</Button>
+        <Button className="bg-green-600 hover:bg-green-700" onClick={() => downloadFile(`${fileStem}-summary.csv`, summaryCsv(students), "text/csv")}>{t("teacher.exportSummary")}</Button>
+        <Button className="bg-blue-600 hover:bg-blue-700" onClick={() => setView('print')}>{t("teacher.printable")}</Button>
+        <Button className="bg-gray-500 hover:bg-gray-600" onClick={() => { updateSettings({ ...settings, passwordHash: "" }); setUnlocked(false); }}>{t("teacher.changePassword")}</Button>
+        <Button className="bg-gray-600 hover:bg-gray-700" onClick={onClose}>{t("teacher.lock")}</Button>
+      </div>
+    </div>
+  );
+};
 
 // --- Main App Component ---
 
 const App = () => {
   const [mode, setMode] = useState<'en' | 'zh' | null>(null);
+  const [drill, setDrill] = useState<Drill>('chars');
+  const [packs, setPacks] = useState<LessonPack[]>([]);
+  const [packId, setPackId] = useState<string | null>(null);
+  const [rowLesson, setRowLesson] = useState<number | null>(null);
+  const [coaching, setCoaching] = useState(false);
+  const [urgentKey, setUrgentKey] = useState<string | null>(null);
+  const [unlockNotice, setUnlockNotice] = useState("");
+  const [combo, setCombo] = useState(0);
+  const [roundResult, setRoundResult] = useState<{ grade: string; accuracy: number; bestCombo: number; breakdown: ScoreBreakdown } | null>(null);
   const [difficultyIndex, setDifficultyIndex] = useState(0);
+  const [adaptive, setAdaptive] = useState(false);
+  const [adaptiveTuning, setAdaptiveTuning] = useState<AdaptiveTuning>(ADAPTIVE_START);
   const [score, setScore] = useState(0);
-  const [lives, setLives] = useState(10);
-  const [gameOver, setGameOver] = useState(false);
-  const [bombs, setBombs] = useState<{ id: number; char: string; x: number; y: number; }[]>([]);
+  const [lives, setLives] = useState(STARTING_LIVES);
+  const [activeParts, setActiveParts] = useState<string[]>([]);
   const [step, setStep] = useState("select-mode");
   const [username, setUsername] = useState("");
   const [bombsCleared, setBombsCleared] = useState(0);
-  const [leaderboards, setLeaderboards] = useState<{ [key: string]: LeaderboardEntry[] }>({ en: [], zh: [] });
-  const [viewingLeaderboard, setViewingLeaderboard] = useState<'en' | 'zh' | null>(null);
-  const [floatingTexts, setFloatingTexts] = useState<{id: number, x: number, y: number, value: string}[]>([]);
+  const [challenge, setChallenge] = useState<Challenge>('survival');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardStore>({ version: LEADERBOARD_VERSION, entries: [] });
+  const [boardFilter, setBoardFilter] = useState<LeaderboardFilter>({ challenge: 'survival', mode: 'en', difficulty: 'all', lesson: 'all', range: 'all' });
+  const [floatingTexts, setFloatingTexts] = useState<{id: number, x: number, y: number, value: string, color?: string}[]>([]);
+  const [history, setHistory] = useState<{ [player: string]: SessionSummary[] }>({});
+  const [lastSummary, setLastSummary] = useState<SessionSummary | null>(null);
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [replays, setReplays] = useState<Replay[]>([]);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [watching, setWatching] = useState<{ replay: Replay; returnTo: string } | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [guestSoundSettings, setGuestSoundSettings] = useState<SoundSettings>(DEFAULT_SOUND_SETTINGS);
+  const [guestAccessibility, setGuestAccessibility] = useState<AccessibilitySettings>(DEFAULT_ACCESSIBILITY);
+  // Screen-reader live regions: routine play news, and lost lives or the end of the round.
+  const [announcement, setAnnouncement] = useState("");
+  const [alert, setAlert] = useState("");
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const [guestLayouts, setGuestLayouts] = useState(DEFAULT_LAYOUTS);
+  const [guestLocale, setGuestLocale] = useState(en.code);
 
-  const bombIdRef = useRef(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioRefs = useRef<{ [key: string]: HTMLAudioElement }>({});
+  const soundRef = useRef(createSoundEngine());
+  const [countdown, setCountdown] = useCountdown(soundRef.current);
   const floatingTextIdRef = useRef(0);
+  const engineRef = useRef<GameState | null>(null);
+  const pendingKeysRef = useRef<string[]>([]);
+  const activePartsKeyRef = useRef("");
+  const sessionDifficultyRef = useRef("");
+  const recordingRef = useRef<Pick<Replay, 'keys' | 'spawns' | 'levels'>>({ keys: [], spawns: [], levels: [] });
+  const initialKeyMemoryRef = useRef<KeyMemory>({});
+  const levelBannerRef = useRef<{ difficultyIndex: number; at: number } | null>(null);
 
-  const currentDifficulty = difficulties[difficultyIndex];
-  const bombsToNextLevel = 50;
+  const currentDifficulty = adaptive ? { name: "Adaptive", ...adaptiveTuning } : difficulties[difficultyIndex];
 
-  const loadSounds = useCallback(() => {
-    const sounds = {
-      hit: "https://actions.google.com/sounds/v1/impacts/kick.ogg",
-      fail: "https://actions.google.com/sounds/v1/alarms/alarm_clock.ogg",
-      gameover: "https://actions.google.com/sounds/v1/emergency/beeper_emergency.ogg"
-    };
-    for (const type in sounds) {
-      if (Object.hasOwnProperty.call(sounds, type)) {
-        if (!audioRefs.current[type]) {
-          audioRefs.current[type] = new Audio(sounds[type]);
-          audioRefs.current[type].load();
-        }
-      }
+  useEffect(() => {
+    setLeaderboard(loadLeaderboardStore());
+    try {
+        setPacks(JSON.parse(localStorage.getItem(PACKS_STORAGE_KEY) || "[]"));
+    } catch (e) {
+        console.error("Failed to parse lesson packs from localStorage", e);
     }
-  }, []);
-  
-  const playSound = useCallback((type: string) => {
-    const audio = audioRefs.current[type];
-    if (audio) {
-      audio.currentTime = 0;
-      audio.play().catch(e => console.error(`Error playing sound ${type}:`, e));
-    } else {
-      console.warn(`Sound ${type} not loaded or found.`);
+    try {
+        setHistory(JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) || "{}"));
+    } catch (e) {
+        console.error("Failed to parse player history from localStorage", e);
+    }
+    try {
+        setReplays(JSON.parse(localStorage.getItem(REPLAYS_STORAGE_KEY) || "[]").filter(isReplay));
+    } catch (e) {
+        console.error("Failed to parse replays from localStorage", e);
+    }
+    try {
+        setGuestSoundSettings(mergeSoundSettings(JSON.parse(localStorage.getItem(SOUND_SETTINGS_STORAGE_KEY) || "null")));
+    } catch (e) {
+        console.error("Failed to parse sound settings from localStorage", e);
+    }
+    try {
+        setGuestAccessibility(mergeAccessibilitySettings(JSON.parse(localStorage.getItem(ACCESSIBILITY_STORAGE_KEY) || "null")));
+    } catch (e) {
+        console.error("Failed to parse accessibility settings from localStorage", e);
+    }
+    setCoaching(localStorage.getItem(COACHING_STORAGE_KEY) === "true");
+    setGuestLocale(localStorage.getItem(LOCALE_STORAGE_KEY) || detectLocale(navigator.languages || [navigator.language]));
+    try {
+        setGuestLayouts({ ...DEFAULT_LAYOUTS, ...JSON.parse(localStorage.getItem(LAYOUTS_STORAGE_KEY) || "{}") });
+    } catch (e) {
+        console.error("Failed to parse keyboard layouts from localStorage", e);
+    }
+    try {
+        const storedProfiles: PlayerProfile[] = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || "[]");
+        const storedActiveId = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+        const storedActive = storedProfiles.find((p) => p.id === storedActiveId);
+        setProfiles(storedProfiles);
+        if (storedActive) {
+            setActiveProfileId(storedActive.id);
+            setMode(storedActive.preferredMode);
+        } else {
+            setStep("profiles");
+        }
+    } catch (e) {
+        console.error("Failed to parse profiles from localStorage", e);
+        setStep("profiles");
     }
   }, []);
 
-  useEffect(() => {
-    loadSounds();
+  const savePacks = (newPacks: LessonPack[]) => {
+    setPacks(newPacks);
+    localStorage.setItem(PACKS_STORAGE_KEY, JSON.stringify(newPacks));
+  };
+
+  const saveReplays = (newReplays: Replay[]) => {
+    setReplays(newReplays);
     try {
-        const enBoard = JSON.parse(localStorage.getItem("leaderboard_en") || "[]");
-        const zhBoard = JSON.parse(localStorage.getItem("leaderboard_zh") || "[]");
-        setLeaderboards({ en: enBoard, zh: zhBoard });
+      localStorage.setItem(REPLAYS_STORAGE_KEY, JSON.stringify(newReplays));
     } catch (e) {
-        console.error("Failed to parse leaderboards from localStorage", e);
-        localStorage.removeItem("leaderboard_en");
-        localStorage.removeItem("leaderboard_zh");
+      // Replays are the bulkiest thing we store; a full quota should not break the game.
+      console.error("Failed to save replays to localStorage", e);
     }
-  }, [loadSounds]);
+  };
 
-  const createBomb = useCallback(() => {
-    const canvasWidth = 400;
-    const bombRadius = 20;
+  const watchReplay = (replay: Replay) => {
+    setWatching({ replay, returnTo: step });
+    setStep("replay");
+  };
 
-    setBombs((prev) => {
-      let newBombsBatch: { id: number; char: string; x: number; y: number; }[] = [];
-      if (!mode) return prev;
-      const currentChars = CHAR_SETS[mode];
+  const saveProfiles = (newProfiles: PlayerProfile[]) => {
+    setProfiles(newProfiles);
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(newProfiles));
+  };
 
-      if (!currentChars || currentChars.length === 0) {
-          return prev;
-      }
+  const activeProfile = profiles.find((p) => p.id === activeProfileId) || null;
+  const assignedPacks = activeProfile?.assignedPacks || [];
+  const soundSettings = activeProfile ? mergeSoundSettings(activeProfile.soundSettings) : guestSoundSettings;
+  const accessibility = activeProfile ? mergeAccessibilitySettings(activeProfile.accessibility) : guestAccessibility;
+  const reduceMotion = accessibility.motion === 'reduce' || (accessibility.motion === 'system' && prefersReducedMotion);
+  const locale = activeProfile?.locale || guestLocale;
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  const { t } = i18n;
+  const drawOptions = drawOptionsFor(accessibility, reduceMotion, t);
+  const drawOptionsRef = useRef(drawOptions);
+  drawOptionsRef.current = drawOptions;
 
-      for (let i = 0; i < currentDifficulty.count; i++) {
-        let newX;
-        let overlapped;
-        let attempts = 0;
-        const maxAttempts = 50;
-        do {
-          overlapped = false;
-          newX = Math.random() * (canvasWidth - bombRadius * 2) + bombRadius;
-          const allBombs = [...prev, ...newBombsBatch];
-          for (const existingBomb of allBombs) {
-            const dx = newX - existingBomb.x;
-            const dy = 0 - existingBomb.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            if (distance < bombRadius * 2.5) {
-              overlapped = true;
-              break;
-            }
-          }
-          attempts++;
-        } while (overlapped && attempts < maxAttempts);
-        if (!overlapped) {
-          newBombsBatch.push({
-            id: bombIdRef.current++,
-            char: currentChars[Math.floor(Math.random() * currentChars.length)],
-            x: newX,
-            y: 0
-          });
-        }
-      }
-      return [...prev, ...newBombsBatch];
-    });
-  }, [mode, currentDifficulty.count]);
+  useEffect(() => {
+    soundRef.current.setSettings(soundSettings);
+  }, [soundSettings]);
 
   useEffect(() => {
-    if (step === "game" && !gameOver) {
-      const dropInterval = setInterval(() => {
-        setBombs((prev) => prev.map((b) => ({ ...b, y: b.y + 10 })));
-      }, currentDifficulty.speed / 10);
-      
-      const createInterval = setInterval(createBomb, currentDifficulty.speed);
-      
-      return () => {
-        clearInterval(dropInterval);
-        clearInterval(createInterval);
-      };
+    document.documentElement.lang = i18n.locale;
+  }, [i18n.locale]);
+
+  const layoutIds = { ...DEFAULT_LAYOUTS, ...(activeProfile ? activeProfile.layouts : guestLayouts) };
+  const layout = mode ? layoutById(layoutIds[mode], mode) : null;
+
+  const saveLayout = (layoutMode: 'en' | 'zh', id: string) => {
+    const next = { ...layoutIds, [layoutMode]: id };
+    if (activeProfile) {
+      saveProfiles(profiles.map((p) => (p.id === activeProfile.id ? { ...p, layouts: next } : p)));
+    } else {
+      setGuestLayouts(next);
+      localStorage.setItem(LAYOUTS_STORAGE_KEY, JSON.stringify(next));
     }
-  }, [step, gameOver, currentDifficulty.speed, createBomb]);
-  
+  };
+
+  const saveCoaching = (enabled: boolean) => {
+    setCoaching(enabled);
+    localStorage.setItem(COACHING_STORAGE_KEY, String(enabled));
+  };
+
+  const saveLocale = (code: string) => {
+    if (activeProfile) {
+      saveProfiles(profiles.map((p) => (p.id === activeProfile.id ? { ...p, locale: code } : p)));
+    } else {
+      setGuestLocale(code);
+      localStorage.setItem(LOCALE_STORAGE_KEY, code);
+    }
+  };
+
+  const saveAccessibility = (settings: AccessibilitySettings) => {
+    if (activeProfile) {
+      saveProfiles(profiles.map((p) => (p.id === activeProfile.id ? { ...p, accessibility: settings } : p)));
+    } else {
+      setGuestAccessibility(settings);
+      localStorage.setItem(ACCESSIBILITY_STORAGE_KEY, JSON.stringify(settings));
+    }
+  };
+
+  // Live regions only speak when their text changes, so a repeat gets a
+  // trailing no-break space to differ from the last message.
+  const speakTo = (setRegion: React.Dispatch<React.SetStateAction<string>>, messages: string[]) => {
+    if (messages.length === 0) return;
+    const text = messages.join(". ");
+    setRegion((prev) => (prev === text ? `${text}\u00a0` : text));
+  };
+
+  const saveSoundSettings = (settings: SoundSettings) => {
+    soundRef.current.unlock();
+    if (activeProfile) {
+      saveProfiles(profiles.map((p) => (p.id === activeProfile.id ? { ...p, soundSettings: settings } : p)));
+    } else {
+      setGuestSoundSettings(settings);
+      localStorage.setItem(SOUND_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    }
+  };
+
+  const selectProfile = (profile: PlayerProfile | null) => {
+    setActiveProfileId(profile ? profile.id : null);
+    if (profile) {
+      localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profile.id);
+      setMode(profile.preferredMode);
+    } else {
+      localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+      setMode(null);
+    }
+    setDrill('chars');
+    setPackId(null);
+    setRowLesson(null);
+    setStep("select-mode");
+  };
+
+  const activePack = rowLesson === null ? packs.find((p) => p.id === packId && p.mode === mode) : undefined;
+  const lessonLabel = rowLesson !== null ? ROW_LESSONS[rowLesson].name
+    : activePack ? activePack.name : mode ? DRILL_LESSONS[mode][drill] || "" : "";
+  // The lesson as shown to the player; `lessonLabel` is what gets saved.
+  const lessonTitle = activePack ? activePack.name : lessonName(t, lessonLabel);
+  const lessonId = rowLesson !== null ? `rows:${rowLesson}` : activePack ? `pack:${activePack.id}` : `drill:${drill}`;
+  const rowLessonsUnlocked = (lessonMode: 'en' | 'zh') =>
+    activeProfile ? activeProfile.rowLessonsUnlocked?.[lessonMode] || 0 : ROW_LESSONS.length - 1;
+  const showCoaching = coaching || rowLesson !== null;
+
+  const lessonPool = (selectedMode: 'en' | 'zh') =>
+    rowLesson !== null ? rowLessonPool(layoutById(layoutIds[selectedMode], selectedMode), rowLesson)
+      : activePack ? activePack.entries
+      : drill === 'words' ? WORD_SETS[selectedMode]
+      : drill === 'hanzi' ? Object.keys(HANZI_READINGS)
+      : Array.from(CHAR_SETS[selectedMode]);
+
   const handleDisappear = useCallback((idToRemove: number) => {
     setFloatingTexts((prevTexts) => prevTexts.filter((text) => text.id !== idToRemove));
   }, []);
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (step !== "game" || gameOver || !mode) return;
-      const inputKey = e.key.toUpperCase();
-      setBombs((prev) => {
-        let hitOccurred = false;
-        const updatedBombs = prev.filter((b) => {
-          let charOnBomb = b.char;
-          let match = false;
-          if (mode === 'zh') {
-            const expectedKey = ZHUYIN_KEY_MAP[charOnBomb as keyof typeof ZHUYIN_KEY_MAP];
-            if (expectedKey && inputKey === expectedKey.toUpperCase()) {
-              match = true;
-            }
-          } else {
-            if (charOnBomb.toUpperCase() === inputKey) {
-              match = true;
-            }
-          }
-          if (match && !hitOccurred) {
-            setScore((s) => s + 1);
-            setBombsCleared((n) => n + 1);
-            playSound("hit");
-            setFloatingTexts((prevTexts) => [
-              ...prevTexts,
-              { id: floatingTextIdRef.current++, x: b.x, y: b.y, value: "+1" }
-            ]);
-            hitOccurred = true;
-            return false;
-          }
-          return true;
-        });
-        return updatedBombs;
-      });
-    };
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [step, gameOver, mode, playSound, handleDisappear]);
+  // Mirrors engine state into React after each frame and reacts to its events.
+  // Reassigned every render so it always sees the current profile.
+  const syncFromEngineRef = useRef<(state: GameState, events: GameEvent[]) => void>(() => {});
+  syncFromEngineRef.current = (state, events) => {
+    setScore(state.score);
+    setCombo(state.combo);
+    setLives(state.lives);
+    setBombsCleared(state.bombsCleared);
+    // Whole seconds only, so the clock doesn't re-render every frame.
+    setElapsedMs(Math.floor(state.time / 1000) * 1000);
+    setDifficultyIndex(state.difficultyIndex);
+    setAdaptiveTuning(state.tuning);
+    // Coach the locked target, else the bomb closest to the ground.
+    const urgent = state.bombs.find((b) => b.typed > 0)
+      || state.bombs.filter((b) => b.kind !== 'decoy').reduce<Bomb | null>((low, b) => (!low || b.y > low.y ? b : low), null);
+    setUrgentKey(urgent && nextKey(layoutById(state.config.layout, state.config.mode), urgent));
+    const parts = nextParts(state.bombs);
+    if (parts.join("\u0000") !== activePartsKeyRef.current) {
+      activePartsKeyRef.current = parts.join("\u0000");
+      setActiveParts(parts);
+    }
 
-  useEffect(() => {
-    const checkInterval = setInterval(() => {
-      if(step !== "game" || gameOver) return;
-      setBombs((prev) => {
-        const stillActive: { id: number; char: string; x: number; y: number; }[] = [];
-        let livesLost = 0;
-        prev.forEach((b) => {
-          if (b.y >= 500 - 20) {
-            livesLost++;
-          } else {
-            stillActive.push(b);
-          }
-        });
-        if (livesLost > 0) {
-            setLives((l) => Math.max(0, l - livesLost));
-            playSound("fail");
+    const float = (bomb: Bomb, value: string, color?: string) => setFloatingTexts((prevTexts) => [
+      ...prevTexts,
+      { id: floatingTextIdRef.current++, x: bomb.x, y: bomb.y, value, color }
+    ]);
+
+    const spoken: string[] = [];
+    const alerts: string[] = [];
+    const livesLeft = t("announce.livesLeft", { count: state.lives });
+    events.forEach((event) => {
+      if (event.type === 'spawn') {
+        spoken.push(t(`announce.spawn.${event.bomb.kind}`, { text: event.bomb.text }));
+      } else if (event.type === 'hit') {
+        spoken.push(t("announce.hit", { text: event.bomb.text, points: event.points }));
+        if (event.bomb.kind === 'heart') alerts.push(t("announce.extraLife", { lives: livesLeft }));
+        soundRef.current.play('hit');
+        soundRef.current.speak(event.bomb.text, state.config.mode);
+        const points = `+${event.points}`;
+        const { kind } = event.bomb;
+        if (kind === 'freeze') float(event.bomb, t("float.freeze", { points }), "text-sky-300");
+        else if (kind === 'nuke') float(event.bomb, t("float.nuke", { points }), "text-orange-400");
+        else if (kind === 'heart') float(event.bomb, t("float.heart", { points }), "text-pink-400");
+        else float(event.bomb, points);
+      } else if (event.type === 'armor-break') {
+        spoken.push(t("announce.armor", { text: event.bomb.text }));
+        soundRef.current.play('hit');
+        float(event.bomb, t("float.armor"), "text-gray-300");
+      } else if (event.type === 'decoy') {
+        alerts.push(CHALLENGES[challengeOf(state.config)].lives ? t("announce.decoyLives", { lives: livesLeft }) : t("announce.decoy"));
+        soundRef.current.play('miss');
+        float(event.bomb, t("float.decoy"), "text-red-400");
+      } else if (event.type === 'landed') {
+        if (CHALLENGES[challengeOf(state.config)].lives) alerts.push(t("announce.landed", { count: event.count, lives: livesLeft }));
+        soundRef.current.play('miss');
+      } else if (event.type === 'level-up') {
+        const { mode: levelMode } = state.config;
+        if (activeProfile && activeProfile.unlockedLevels[levelMode] < event.difficultyIndex) {
+          saveProfiles(profiles.map((p) => (p.id === activeProfile.id
+            ? { ...p, unlockedLevels: { ...p.unlockedLevels, [levelMode]: event.difficultyIndex } }
+            : p)));
         }
-        return stillActive;
-      });
-    }, 100);
-    return () => clearInterval(checkInterval);
-  }, [step, gameOver, playSound]);
+        levelBannerRef.current = { difficultyIndex: event.difficultyIndex, at: state.time };
+        spoken.push(t("announce.levelUp", { level: difficultyName(t, difficulties[event.difficultyIndex].name) }));
+        soundRef.current.play('level-up');
+      } else if (event.type === 'game-over') {
+        const { accuracy } = summarizeSession(state.keystrokes, state.landed, state.time);
+        setRoundResult({ grade: gradeRound(accuracy, state.bestCombo), accuracy, bestCombo: state.bestCombo, breakdown: state.breakdown });
+        setStep("enter-name");
+        alerts.push(t("announce.roundOver", { score: state.score }));
+        soundRef.current.play('game-over');
+      }
+    });
+    if (accessibility.announce) {
+      speakTo(setAnnouncement, spoken);
+      speakTo(setAlert, alerts);
+    }
+  };
 
-  useEffect(() => {
-    if (lives <= 0 && step === "game") {
-      setGameOver(true);
-      setStep("enter-name");
-      playSound("gameover");
+  // The canvas is redrawn once per animation frame, after the engine has
+  // caught up; each step's keys and spawns are recorded for the replay.
+  useFixedStepLoop(step === "game" && !paused && countdown <= 0, soundRef.current, (steps) => {
+    let state = engineRef.current;
+    if (!state || state.gameOver) return false;
+    const events: GameEvent[] = [];
+    const recording = recordingRef.current;
+    for (let i = 0; i < steps && !state.gameOver; i++) {
+      const stepNumber = stepIndex(state);
+      pendingKeysRef.current.forEach((key) => recording.keys.push([stepNumber, key]));
+      state = stepGame(state, STEP_MS, pendingKeysRef.current);
+      pendingKeysRef.current = [];
+      state.events.forEach((event) => {
+        if (event.type === 'spawn') recording.spawns.push([stepNumber, event.bomb.text, Math.round(event.bomb.x * 100) / 100]);
+        if (event.type === 'level-up') recording.levels.push([stepNumber, event.difficultyIndex]);
+      });
+      events.push(...state.events);
     }
-  }, [lives, step, playSound]);
+    engineRef.current = state;
+    syncFromEngineRef.current(state, events);
+    const ctx = canvasRef.current?.getContext("2d");
+    const banner = levelBannerRef.current;
+    if (ctx) drawGame(ctx, state, banner && { difficultyIndex: banner.difficultyIndex, elapsedMs: state.time - banner.at }, drawOptionsRef.current);
+    return !state.gameOver;
+  });
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    bombs.forEach((b) => {
-      ctx.fillStyle = "black";
-      ctx.beginPath();
-      ctx.arc(b.x, b.y, 20, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.fillStyle = "gray";
-      ctx.fillRect(b.x - 2, b.y - 25, 4, 10);
-      ctx.fillStyle = "red";
-      ctx.beginPath();
-      ctx.arc(b.x, b.y - 25, 4, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.fillStyle = "white";
-      ctx.font = "bold 24px Arial";
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillText(b.char, b.x, b.y);
-    });
-  }, [bombs]);
+  const pauseGame = useCallback(() => {
+    if (!engineRef.current || engineRef.current.gameOver) return;
+    pendingKeysRef.current = [];
+    setPaused(true);
+    setCountdown(0);
+  }, []);
+
+  const finishZen = () => {
+    const state = engineRef.current;
+    if (!state || state.gameOver) return;
+    engineRef.current = finishRound(state);
+    syncFromEngineRef.current(engineRef.current, engineRef.current.events);
+  };
+
+  const resumeGame = () => {
+    soundRef.current.unlock();
+    setPaused(false);
+    setCountdown(RESUME_COUNTDOWN);
+  };
+
+  usePauseOnBlur(step === "game", pauseGame);
 
   useEffect(() => {
-    if (bombsCleared > 0 && bombsCleared % bombsToNextLevel === 0) {
-        if (difficultyIndex < difficulties.length - 1) {
-            setDifficultyIndex((i) => i + 1);
-            alert("LEVEL COMPLETED! Next level starting.");
-        }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const state = engineRef.current;
+      if (step !== "game" || !state || state.gameOver) return;
+      const halted = paused || countdown > 0;
+      const key = eventKey(e);
+      // Esc toggles pause. Space does too, unless it is the key to type: the
+      // Zhuyin first tone, or a space in an English sentence.
+      const spaceTypes = mode === 'zh' || nextParts(state.bombs).includes(' ');
+      if (e.key === "Escape" || (key === ' ' && (halted || !spaceTypes))) {
+        e.preventDefault();
+        if (paused) resumeGame();
+        else pauseGame();
+        return;
+      }
+      if (halted || key === undefined) return;
+      if (key === ' ') e.preventDefault();
+      pendingKeysRef.current.push(key);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [step, paused, countdown, mode, pauseGame]);
+
+  const activeKeys = step === 'game' && layout ? activeKeySet(layout, activeParts) : new Set<string>();
+
+  const loadGuestKeyMemory = (): { en: KeyMemory; zh: KeyMemory } => {
+    try {
+      return { en: {}, zh: {}, ...JSON.parse(localStorage.getItem(KEY_MEMORY_STORAGE_KEY) || "{}") };
+    } catch (e) {
+      console.error("Failed to parse key memory from localStorage", e);
+      return { en: {}, zh: {} };
     }
-  }, [bombsCleared, difficultyIndex]);
-  
-  const activeKeys = new Set<string>();
-  if (step === 'game' && mode) {
-      bombs.forEach(bomb => {
-          if (mode === 'en') {
-              activeKeys.add(bomb.char.toUpperCase());
-          } else if (mode === 'zh') {
-              activeKeys.add(bomb.char);
-          }
-      });
-  }
+  };
 
-  const startGame = (selectedMode: 'en' | 'zh', difficultyIdx: number) => {
+  const startGame = (selectedMode: 'en' | 'zh', difficultyIdx: number, adaptiveMode = false) => {
+    soundRef.current.unlock();
     setMode(selectedMode);
     setDifficultyIndex(difficultyIdx);
+    setAdaptive(adaptiveMode);
+    setAdaptiveTuning(ADAPTIVE_START);
+    sessionDifficultyRef.current = adaptiveMode ? "Adaptive" : difficulties[difficultyIdx].name;
+    const keyMemory = (activeProfile ? activeProfile.keyMemory : loadGuestKeyMemory())[selectedMode];
+    engineRef.current = createGameState({
+      mode: selectedMode,
+      pool: lessonPool(selectedMode),
+      difficultyIndex: difficultyIdx,
+      adaptive: adaptiveMode,
+      seed: Math.floor(Math.random() * 2 ** 32),
+      clockStart: Date.now(),
+      layout: layoutIds[selectedMode],
+      specials: true,
+      tunedSpecials: true,
+      sharedSpawns: true,
+      challenge
+    }, keyMemory);
+    initialKeyMemoryRef.current = keyMemory;
+    levelBannerRef.current = null;
+    setPaused(false);
+    setCountdown(0);
+    recordingRef.current = { keys: [], spawns: [], levels: [] };
+    pendingKeysRef.current = [];
+    activePartsKeyRef.current = "";
+    setActiveParts([]);
     setScore(0);
-    setLives(10);
-    setBombs([]);
+    setElapsedMs(0);
+    setCombo(0);
+    setRoundResult(null);
+    setLives(STARTING_LIVES);
     setBombsCleared(0);
-    setGameOver(false);
     setFloatingTexts([]);
     setStep("game");
   };
 
   const submitScore = () => {
-    if (!mode) return;
-    const newEntry = { name: username || "Anonymous", score, date: new Date().toLocaleString() };
-    const currentBoard = leaderboards[mode] || [];
-    const newBoard = [...currentBoard, newEntry].sort((a, b) => b.score - a.score).slice(0, 10);
-    
-    setLeaderboards(prev => ({ ...prev, [mode]: newBoard }));
-    localStorage.setItem(`leaderboard_${mode}`, JSON.stringify(newBoard));
-    
-    setViewingLeaderboard(mode);
-    setStep("leaderboard");
+    const engine = engineRef.current;
+    if (!mode || !engine) return;
+    const player = activeProfile ? activeProfile.name : username || "Anonymous";
+    const durationMs = engine.time;
+    const summary: SessionSummary = {
+      date: new Date(engine.config.clockStart).toISOString(),
+      mode,
+      lesson: lessonLabel,
+      difficulty: sessionDifficultyRef.current,
+      score,
+      durationMs,
+      ...summarizeSession(engine.keystrokes, engine.landed, durationMs),
+      layout: engine.config.layout,
+      challenge: challengeOf(engine.config)
+    };
+
+    const newLeaderboard = addLeaderboardEntry(leaderboard, {
+      name: player,
+      score,
+      mode,
+      difficulty: summary.difficulty,
+      lesson: lessonId,
+      lessonName: lessonLabel,
+      accuracy: summary.accuracy,
+      kpm: summary.kpm,
+      durationMs,
+      date: new Date().toISOString(),
+      challenge: summary.challenge
+    });
+    setLeaderboard(newLeaderboard);
+    saveLeaderboardStore(newLeaderboard);
+
+    const unlockedRowLesson = rowLesson !== null && rowLesson === rowLessonsUnlocked(mode) && rowLesson < ROW_LESSONS.length - 1
+      && engine.bombsCleared >= ROW_LESSON_PASS.bombs && summary.accuracy >= ROW_LESSON_PASS.accuracy
+      ? rowLesson + 1 : null;
+    setUnlockNotice(activeProfile && unlockedRowLesson !== null ? t("result.unlocked", { lesson: lessonName(t, ROW_LESSONS[unlockedRowLesson].name) }) : "");
+    if (activeProfile) {
+      saveProfiles(profiles.map((p) => (p.id === activeProfile.id
+        ? {
+          ...recordSession(p, summary),
+          keyMemory: { ...p.keyMemory, [mode]: engine.keyMemory },
+          rowLessonsUnlocked: unlockedRowLesson !== null
+            ? { en: 0, zh: 0, ...p.rowLessonsUnlocked, [mode]: unlockedRowLesson }
+            : p.rowLessonsUnlocked
+        }
+        : p)));
+    } else {
+      const newHistory = { ...history, [player]: [...(history[player] || []), summary].slice(-MAX_HISTORY_PER_PLAYER) };
+      setHistory(newHistory);
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(newHistory));
+      localStorage.setItem(KEY_MEMORY_STORAGE_KEY, JSON.stringify({ ...loadGuestKeyMemory(), [mode]: engine.keyMemory }));
+    }
+    setLastSummary(summary);
+    setLastReplay({
+      version: REPLAY_VERSION,
+      id: `${engine.config.clockStart}-${engine.config.seed}`,
+      player,
+      lesson: lessonLabel,
+      date: summary.date,
+      score,
+      durationMs,
+      config: engine.config,
+      keyMemory: initialKeyMemoryRef.current,
+      ...recordingRef.current
+    });
+
+    setBoardFilter({ challenge: summary.challenge || 'survival', mode, difficulty: summary.difficulty, lesson: lessonId, range: 'all' });
+    setStep("stats");
   };
   
   const resetGame = () => {
-    setMode(null);
+    setMode(activeProfile ? activeProfile.preferredMode : null);
     setStep("select-mode");
     setDifficultyIndex(0);
   }
 
-  const currentBoard = viewingLeaderboard ? leaderboards[viewingLeaderboard] : [];
+  const currentBoard = filterLeaderboard(leaderboard.entries, boardFilter);
+  const modeEntries = leaderboard.entries.filter((e) => e.mode === boardFilter.mode);
+  const boardDifficulties = Array.from(new Set(modeEntries.map((e) => e.difficulty)));
+  const boardLessons = Array.from(new Map(modeEntries.map((e) => [e.lesson, e.lessonName])).entries());
 
   return (
-    <div className="p-4 relative min-h-screen flex flex-col items-center justify-start bg-gray-50 font-sans">
+    <div className={`p-4 relative min-h-screen flex flex-col items-center justify-start bg-gray-50 font-sans theme-${accessibility.theme} ${reduceMotion ? 'reduce-motion' : ''}`}>
+      <div className="sr-only" aria-live="polite">{announcement}</div>
+      <div className="sr-only" aria-live="assertive">{alert}</div>
+      {(step === "profiles" || step === "select-mode") && (
+        <div className="absolute top-4 right-4">
+          <LanguagePicker i18n={i18n} onChange={saveLocale} />
+        </div>
+      )}
+      {step === "profiles" && (
+        <ProfileManager
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          legacyHistory={history}
+          i18n={i18n}
+          onChange={saveProfiles}
+          onSelect={selectProfile}
+        />
+      )}
+
       {step === "select-mode" && (
         <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center">
-          <h1 className="text-4xl font-extrabold text-blue-700 mb-6 animate-pulse">Welcome to Typing Bomb Squad!</h1>
-          <p className="text-xl mb-6 text-gray-700">Select your practice mode:</p>
-          <div className="space-x-6 mb-10">
-            <Button className="px-10 py-4 text-2xl bg-green-500 hover:bg-green-600 shadow-lg" onClick={() => setMode("en")}>English Mode</Button>
-            <Button className="px-10 py-4 text-2xl bg-purple-500 hover:bg-purple-600 shadow-lg" onClick={() => setMode("zh")}>Zhuyin Mode</Button>
+          <div className="mb-6 flex items-center space-x-4 text-xl text-gray-700">
+            <span>
+              {activeProfile ? <><span className="text-3xl mr-2">{activeProfile.avatar}</span>{activeProfile.name}</> : t("menu.guest")}
+            </span>
+            <Button className="text-sm bg-gray-500 hover:bg-gray-600" onClick={() => setStep("profiles")}>
+              {activeProfile ? t("menu.switchPlayer") : t("menu.choosePlayer")}
+            </Button>
           </div>
+          <h1 className="text-4xl font-extrabold text-blue-700 mb-6 animate-pulse">{t("menu.welcome")}</h1>
+          <p className="text-xl mb-6 text-gray-700">{t("menu.selectMode")}</p>
+          <div role="group" aria-label={t("menu.group.mode")} className="space-x-6 mb-10" onKeyDown={focusByArrows}>
+            <Button className="px-10 py-4 text-2xl bg-green-500 hover:bg-green-600 shadow-lg" aria-pressed={mode === "en"} onClick={() => { setMode("en"); setDrill('chars'); setPackId(null); setRowLesson(null); }}>{t("menu.englishMode")}</Button>
+            <Button className="px-10 py-4 text-2xl bg-purple-500 hover:bg-purple-600 shadow-lg" aria-pressed={mode === "zh"} onClick={() => { setMode("zh"); setDrill('chars'); setPackId(null); setRowLesson(null); }}>{t("menu.zhuyinMode")}</Button>
+          </div>
+          {mode && (
+            <div className="mb-4 text-center">
+              <h2 className="text-3xl font-bold mb-4 text-gray-800">{t("menu.selectDrill")}</h2>
+              <div role="group" aria-label={t("menu.group.drill")} className="flex justify-center space-x-4" onKeyDown={focusByArrows}>
+                {(Object.entries(DRILL_LESSONS[mode]) as [Drill, string][]).map(([d, name]) => (
+                  <Button
+                    key={d}
+                    className={`px-8 py-3 text-xl ${!activePack && rowLesson === null && drill === d ? 'bg-blue-600' : 'bg-gray-500 hover:bg-gray-600'}`}
+                    aria-pressed={!activePack && rowLesson === null && drill === d}
+                    onClick={() => { setDrill(d); setPackId(null); setRowLesson(null); }}
+                  >
+                    {lessonName(t, name)}
+                  </Button>
+                ))}
+              </div>
+              {packs.some((p) => p.mode === mode) && (
+                <div role="group" aria-label={t("menu.group.packs")} className="flex justify-center space-x-4 flex-wrap gap-y-4 mt-4" onKeyDown={focusByArrows}>
+                  {/* Packs the teacher assigned to this player come first. */}
+                  {packs.filter((p) => p.mode === mode)
+                    .sort((a, b) => Number(assignedPacks.includes(b.id)) - Number(assignedPacks.includes(a.id)))
+                    .map((pack) => (
+                      <Button
+                        key={pack.id}
+                        className={`px-6 py-2 text-lg ${activePack?.id === pack.id ? 'bg-blue-600' : 'bg-teal-500 hover:bg-teal-600'}`}
+                        aria-pressed={activePack?.id === pack.id}
+                        onClick={() => { setPackId(pack.id); setRowLesson(null); }}
+                        title={assignedPacks.includes(pack.id) ? t("menu.assigned") : undefined}
+                      >
+                        {assignedPacks.includes(pack.id) ? "📌" : "📚"} {pack.name}
+                      </Button>
+                    ))}
+                </div>
+              )}
+              <h3 className="text-xl font-bold mt-6 mb-2 text-gray-800">{t("menu.homeRow")}</h3>
+              <div role="group" aria-label={t("menu.group.rowLessons")} className="flex justify-center space-x-4 flex-wrap gap-y-4" onKeyDown={focusByArrows}>
+                {ROW_LESSONS.map((lesson, i) => {
+                  const locked = i > rowLessonsUnlocked(mode);
+                  return (
+                    <Button
+                      key={lesson.name}
+                      className={`px-6 py-2 text-lg ${locked ? 'bg-gray-400 cursor-not-allowed' : rowLesson === i ? 'bg-blue-600' : 'bg-amber-500 hover:bg-amber-600'}`}
+                      aria-pressed={rowLesson === i}
+                      onClick={() => setRowLesson(i)}
+                      disabled={locked}
+                      title={locked ? t("menu.rowLessonLocked", { bombs: ROW_LESSON_PASS.bombs, accuracy: ROW_LESSON_PASS.accuracy * 100 }) : undefined}
+                    >
+                      {locked && "🔒 "}{i + 1}. {lessonName(t, lesson.name)}
+                    </Button>
+                  );
+                })}
+              </div>
+              <label className="block mt-4 text-lg text-gray-700">
+                <input type="checkbox" className="mr-2" checked={coaching} onChange={(e) => saveCoaching(e.target.checked)} />
+                {t("menu.fingerGuidance")}
+              </label>
+              {layout && (
+                <label className="block mt-6 text-lg text-gray-700">
+                  {t("menu.layout")}
+                  <select
+                    className="ml-2 border border-gray-400 p-2 rounded-lg text-gray-800"
+                    value={layout.id}
+                    onChange={(e) => saveLayout(mode, e.target.value)}
+                  >
+                    {KEYBOARD_LAYOUTS.filter((l) => l.mode === mode).map((l) => (
+                      <option key={l.id} value={l.id}>{l.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
           {mode && (
             <div className="mt-8 text-center">
-              <h2 className="text-3xl font-bold mb-4 text-gray-800">Select Difficulty:</h2>
-              <div className="flex justify-center space-x-4 flex-wrap gap-y-4">
-                {difficulties.map((level, i) => (
+              <h2 className="text-3xl font-bold mb-4 text-gray-800">{t("menu.selectChallenge")}</h2>
+              <div role="group" aria-label={t("menu.group.challenge")} className="flex justify-center space-x-4 flex-wrap gap-y-4" onKeyDown={focusByArrows}>
+                {(Object.keys(CHALLENGES) as Challenge[]).map((c) => (
                   <Button
-                    key={level.name}
-                    className={`px-8 py-3 text-xl ${difficultyIndex === i ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-800'}`}
-                    onClick={() => startGame(mode, i)}
+                    key={c}
+                    className={`px-6 py-2 text-lg ${challenge === c ? 'bg-blue-600' : 'bg-gray-500 hover:bg-gray-600'}`}
+                    aria-pressed={challenge === c}
+                    onClick={() => setChallenge(c)}
+                    title={t(`challenge.${c}.description`, { target: CLEAR_TARGET })}
                   >
-                    {level.name}
+                    {t(`challenge.${c}.name`, { target: CLEAR_TARGET })}
                   </Button>
                 ))}
               </div>
+              <p className="mt-2 text-gray-600">{t(`challenge.${challenge}.description`, { target: CLEAR_TARGET })}</p>
+            </div>
+          )}
+          {mode && (
+            <div className="mt-8 text-center">
+              <h2 className="text-3xl font-bold mb-4 text-gray-800">{t("menu.selectDifficulty")}</h2>
+              <div role="group" aria-label={t("menu.group.difficulty")} className="flex justify-center space-x-4 flex-wrap gap-y-4" onKeyDown={focusByArrows}>
+                {difficulties.map((level, i) => {
+                  const locked = !!activeProfile && i > activeProfile.unlockedLevels[mode];
+                  const best = activeProfile ? personalBest(activeProfile, mode, level.name, challenge) : undefined;
+                  return (
+                    <Button
+                      key={level.name}
+                      className={`px-8 py-3 text-xl ${locked ? 'bg-gray-400 cursor-not-allowed' : !adaptive && difficultyIndex === i ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-800'}`}
+                      onClick={() => startGame(mode, i)}
+                      disabled={locked}
+                      title={locked ? t("menu.levelLocked") : undefined}
+                    >
+                      {locked && "🔒 "}{difficultyName(t, level.name)}
+                      {best !== undefined && <span className="block text-xs font-normal">{t("menu.best", { best })}</span>}
+                    </Button>
+                  );
+                })}
+                <Button
+                  className={`px-8 py-3 text-xl ${adaptive ? 'bg-yellow-500 text-black' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+                  onClick={() => startGame(mode, 0, true)}
+                >
+                  {t("menu.adaptive")}
+                </Button>
+              </div>
             </div>
           )}
+          <div className="mt-10 space-x-4">
+            <Button className="px-6 py-2 text-lg bg-teal-600 hover:bg-teal-700 shadow" onClick={() => setStep("lessons")}>{t("menu.lessonPacks")}</Button>
+            {mode && (
+              <Button className="px-6 py-2 text-lg bg-red-500 hover:bg-red-600 shadow" onClick={() => setStep("versus")}>{t("menu.versus")}</Button>
+            )}
+            {mode && (
+              <Button className="px-6 py-2 text-lg bg-blue-500 hover:bg-blue-600 shadow" onClick={() => setStep("race")}>{t("menu.race")}</Button>
+            )}
+            <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700 shadow" onClick={() => setStep("replays")}>{t("menu.replays")}</Button>
+            <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700 shadow" onClick={() => setStep("sound")}>{t("menu.sound")}</Button>
+            <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700 shadow" onClick={() => setStep("accessibility")}>{t("menu.accessibility")}</Button>
+            <Button className="px-6 py-2 text-lg bg-gray-600 hover:bg-gray-700 shadow" onClick={() => setStep("teacher")}>{t("menu.teacher")}</Button>
+          </div>
         </div>
       )}
 
+      {step === "versus" && mode && layout && (
+        <VersusMatch mode={mode} layout={layout} sound={soundRef.current} drawOptions={drawOptions} i18n={i18n} onClose={() => setStep("select-mode")} />
+      )}
+
+      {step === "race" && mode && (
+        <RaceRoom
+          mode={mode}
+          pool={lessonPool(mode)}
+          lessonTitle={lessonTitle}
+          layoutIds={layoutIds}
+          playerName={activeProfile ? activeProfile.name : username}
+          sound={soundRef.current}
+          drawOptions={drawOptions}
+          i18n={i18n}
+          onClose={() => setStep("select-mode")}
+        />
+      )}
+
+      {step === "teacher" && (
+        <TeacherDashboard
+          profiles={profiles}
+          guestHistory={history}
+          packs={packs}
+          i18n={i18n}
+          onProfilesChange={saveProfiles}
+          onClose={() => setStep("select-mode")}
+        />
+      )}
+
+      {step === "lessons" && (
+        <LessonManager packs={packs} i18n={i18n} onChange={savePacks} onClose={() => setStep("select-mode")} />
+      )}
+
       {step === "enter-name" && (
         <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center bg-gradient-to-br from-red-200 to-red-400 text-white">
-          <h1 className="text-5xl font-extrabold text-red-800 mb-6 animate-bounce">GAME OVER!</h1>
-          <p className="text-2xl mb-6 font-semibold">Your Score: <span className="font-extrabold text-green-800 text-3xl">{score}</span></p>
-          <input
-            className="border border-gray-400 p-4 rounded-lg mb-6 text-xl w-80 text-center text-gray-800 focus:outline-none focus:ring-4 focus:ring-blue-300"
-            value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            placeholder="Enter your name (optional)"
-            maxLength={15}
-          />
+          <h1 className="text-5xl font-extrabold text-red-800 mb-6 animate-bounce">
+            {CHALLENGES[challenge].lives && lives <= 0 ? t("result.gameOver")
+              : challenge === 'sprint' ? t("result.timesUp")
+              : challenge === 'clear' ? t("result.allClear")
+              : t("result.sessionComplete")}
+          </h1>
+          <p className="text-2xl mb-6 font-semibold">{t("result.score")} <span className="font-extrabold text-green-800 text-3xl">{score}</span></p>
+          {challenge === 'clear' && engineRef.current && (
+            <p className="text-2xl mb-6 font-semibold">{t("result.time")} <span className="font-extrabold text-green-800 text-3xl">{(engineRef.current.time / 1000).toFixed(1)}s</span></p>
+          )}
+          {roundResult && (
+            <div className="mb-6 flex items-center space-x-8 bg-white/90 text-gray-800 p-6 rounded-xl shadow-lg">
+              <div className="text-center">
+                <div className="text-sm text-gray-500">{t("result.grade")}</div>
+                <div className="text-7xl font-extrabold text-blue-700">{roundResult.grade}</div>
+              </div>
+              <table className="text-left text-lg">
+                <tbody>
+                  <tr><td className="pr-6">{t("result.base")}</td><td className="text-right font-bold">+{roundResult.breakdown.base}</td></tr>
+                  <tr><td className="pr-6">{t("result.height")}</td><td className="text-right font-bold">+{roundResult.breakdown.height}</td></tr>
+                  <tr><td className="pr-6">{t("result.combo")}</td><td className="text-right font-bold">+{roundResult.breakdown.combo}</td></tr>
+                  <tr><td className="pr-6">{t("result.penalty")}</td><td className="text-right font-bold text-red-600">−{roundResult.breakdown.penalty}</td></tr>
+                  <tr className="border-t"><td className="pr-6">{t("result.accuracyStreak")}</td><td className="text-right font-bold">{Math.round(roundResult.accuracy * 100)}% · {roundResult.bestCombo}</td></tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+          {activeProfile ? (
+            <p className="text-xl mb-6 text-gray-800">{t("result.savingTo")} <span className="text-3xl">{activeProfile.avatar}</span> <span className="font-bold">{activeProfile.name}</span></p>
+          ) : (
+            <input
+              className="border border-gray-400 p-4 rounded-lg mb-6 text-xl w-80 text-center text-gray-800 focus:outline-none focus:ring-4 focus:ring-blue-300"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder={t("result.namePlaceholder")}
+              maxLength={15}
+            />
+          )}
           <br />
-          <Button className="px-10 py-4 text-xl bg-blue-700 hover:bg-blue-800 shadow-xl" onClick={submitScore}>Submit Score</Button>
+          <Button className="px-10 py-4 text-xl bg-blue-700 hover:bg-blue-800 shadow-xl" onClick={submitScore}>{t("result.submit")}</Button>
         </div>
       )}
 
+      {step === "stats" && lastSummary && (
+        <SessionStats
+          summary={lastSummary}
+          history={activeProfile ? activeProfile.sessions : history[username || "Anonymous"] || []}
+          player={activeProfile ? activeProfile.name : username || "Anonymous"}
+          i18n={i18n}
+          onContinue={() => setStep("leaderboard")}
+        >
+          {unlockNotice && <span className="self-center text-xl font-bold text-green-700">{unlockNotice}</span>}
+          {lastReplay && (
+            <>
+              <Button className="px-6 py-4 text-xl bg-gray-600 hover:bg-gray-700 shadow-lg" onClick={() => watchReplay(lastReplay)}>{t("result.watchReplay")}</Button>
+              <Button
+                className="px-6 py-4 text-xl bg-teal-600 hover:bg-teal-700 shadow-lg disabled:opacity-50"
+                disabled={replays.some((r) => r.id === lastReplay.id)}
+                onClick={() => saveReplays([lastReplay, ...replays].slice(0, MAX_SAVED_REPLAYS))}
+              >
+                {replays.some((r) => r.id === lastReplay.id) ? t("result.replaySaved") : t("result.saveReplay")}
+              </Button>
+            </>
+          )}
+        </SessionStats>
+      )}
+
+      {step === "sound" && (
+        <SoundSettingsPanel
+          settings={soundSettings}
+          i18n={i18n}
+          onChange={saveSoundSettings}
+          onTest={(effect) => {
+            soundRef.current.unlock();
+            soundRef.current.play(effect);
+          }}
+          onClose={() => setStep("select-mode")}
+        />
+      )}
+
+      {step === "accessibility" && (
+        <AccessibilitySettingsPanel settings={accessibility} i18n={i18n} onChange={saveAccessibility} onClose={() => setStep("select-mode")} />
+      )}
+
+      {step === "replays" && (
+        <ReplayLibrary replays={replays} i18n={i18n} onChange={saveReplays} onWatch={watchReplay} onClose={() => setStep("select-mode")} />
+      )}
+
+      {step === "replay" && watching && (
+        <ReplayViewer replay={watching.replay} drawOptions={drawOptions} i18n={i18n} onClose={() => setStep(watching.returnTo)} />
+      )}
+
       {step === "leaderboard" && (
         <div className="p-4 text-center min-h-screen flex flex-col justify-center items-center">
-          <h1 className="text-4xl font-extrabold text-yellow-700 mb-6">🏆 Leaderboard 🏆</h1>
+          <h1 className="text-4xl font-extrabold text-yellow-700 mb-6">{t("board.title")}</h1>
+
+          <div role="group" aria-label={t("menu.group.challenge")} className="mb-4 flex space-x-2" onKeyDown={focusByArrows}>
+            {(Object.keys(CHALLENGES) as Challenge[]).map((c) => (
+              <Button
+                key={c}
+                className={`text-sm ${boardFilter.challenge === c ? 'bg-blue-600' : 'bg-gray-500'}`}
+                aria-pressed={boardFilter.challenge === c}
+                onClick={() => setBoardFilter({ ...boardFilter, challenge: c, difficulty: 'all', lesson: 'all' })}
+              >
+                {t(`challenge.${c}.name`, { target: CLEAR_TARGET })}
+              </Button>
+            ))}
+          </div>
           
-          <div className="mb-4 flex space-x-4">
+          <div role="group" aria-label={t("menu.group.mode")} className="mb-4 flex space-x-4" onKeyDown={focusByArrows}>
             <Button 
-                className={viewingLeaderboard === 'en' ? 'bg-green-600' : 'bg-gray-500'}
-                onClick={() => setViewingLeaderboard('en')}>
-                English
+                className={boardFilter.mode === 'en' ? 'bg-green-600' : 'bg-gray-500'}
+                aria-pressed={boardFilter.mode === 'en'}
+                onClick={() => setBoardFilter({ ...boardFilter, mode: 'en', difficulty: 'all', lesson: 'all' })}>
+                {t("mode.en")}
             </Button>
             <Button 
-                className={viewingLeaderboard === 'zh' ? 'bg-purple-600' : 'bg-gray-500'}
-                onClick={() => setViewingLeaderboard('zh')}>
-                Zhuyin
+                className={boardFilter.mode === 'zh' ? 'bg-purple-600' : 'bg-gray-500'}
+                aria-pressed={boardFilter.mode === 'zh'}
+                onClick={() => setBoardFilter({ ...boardFilter, mode: 'zh', difficulty: 'all', lesson: 'all' })}>
+                {t("mode.zh")}
             </Button>
           </div>
 
+          <div className="mb-4 flex space-x-4 text-gray-800">
+            <select
+              className="border border-gray-400 p-2 rounded-lg"
+              aria-label={t("board.difficulty")}
+              value={boardFilter.difficulty}
+              onChange={(e) => setBoardFilter({ ...boardFilter, difficulty: e.target.value })}
+            >
+              <option value="all">{t("board.allDifficulties")}</option>
+              {boardDifficulties.map((d) => (
+                <option key={d} value={d}>{d === LEGACY_BOARD ? t("board.earlierScores") : difficultyName(t, d)}</option>
+              ))}
+            </select>
+            <select
+              className="border border-gray-400 p-2 rounded-lg"
+              aria-label={t("board.lesson")}
+              value={boardFilter.lesson}
+              onChange={(e) => setBoardFilter({ ...boardFilter, lesson: e.target.value })}
+            >
+              <option value="all">{t("board.allLessons")}</option>
+              {boardLessons.map(([id, name]) => (
+                <option key={id} value={id}>{lessonName(t, name)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div role="group" aria-label={t("board.range")} className="mb-4 flex space-x-2" onKeyDown={focusByArrows}>
+            {([['today', t("board.today")], ['week', t("board.week")], ['all', t("board.allTime")]] as [LeaderboardRange, string][]).map(([range, label]) => (
+              <Button
+                key={range}
+                className={`text-sm ${boardFilter.range === range ? 'bg-yellow-500 text-black' : 'bg-gray-500'}`}
+                aria-pressed={boardFilter.range === range}
+                onClick={() => setBoardFilter({ ...boardFilter, range })}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
           {currentBoard.length === 0 ? (
-            <p className="text-xl text-gray-600 mt-4">No scores yet. Be the first!</p>
+            <p className="text-xl text-gray-600 mt-4">{t("board.empty")}</p>
           ) : (
             <ol className="mb-8 list-decimal list-inside text-xl font-medium max-w-lg mx-auto bg-white p-6 rounded-xl shadow-lg border border-gray-200">
               {currentBoard.map((entry, i) => (
                 <li key={i} className="mb-3 flex justify-between items-center border-b pb-2 last:border-b-0 last:pb-0">
-                  <span className="text-gray-800">{i + 1}. <span className="font-semibold">{entry.name}</span></span>
+                  <span className="text-gray-800">
+                    {i + 1}. <span className="font-semibold">{entry.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {entry.difficulty === LEGACY_BOARD ? lessonName(t, entry.lessonName) : `${difficultyName(t, entry.difficulty)} · ${lessonName(t, entry.lessonName)}`}
+                      {entry.accuracy !== null && ` · ${Math.round(entry.accuracy * 100)}%`}
+                      {entry.kpm !== null && ` · ${Math.round(entry.kpm)} ${t("stats.kpmShort")}`}
+                      {entry.durationMs !== null && ` · ${Math.round(entry.durationMs / 1000)}s`}
+                    </span>
+                  </span>
                   <span className="font-extrabold text-blue-700 text-2xl">
-                    {entry.score} pts <span className="text-sm text-gray-500 ml-2">({entry.date.split(',')[0]})</span>
+                    {entry.challenge === 'clear' && entry.durationMs !== null ? `${(entry.durationMs / 1000).toFixed(1)}s` : t("board.points", { score: entry.score })} <span className="text-sm text-gray-500 ml-2">({entry.date ? i18n.formatDate(entry.date) : "—"})</span>
                   </span>
                 </li>
               ))}
             </ol>
           )}
-          <Button className="px-10 py-4 text-xl bg-blue-600 hover:bg-blue-700 shadow-lg" onClick={resetGame}>Play Again</Button>
+          <Button className="px-10 py-4 text-xl bg-blue-600 hover:bg-blue-700 shadow-lg" onClick={resetGame}>{t("board.playAgain")}</Button>
         </div>
       )}
 
       {step === "game" && (
         <>
           <div className="w-full max-w-xl flex justify-between items-center px-6 py-4 bg-white shadow-md rounded-lg mb-6">
-            <div className="flex items-center text-red-600 font-extrabold text-4xl select-none">
-              <span role="img" aria-label="heart" className="mr-2 text-5xl animate-pulse">❤️</span> {lives}
-            </div>
+            {CHALLENGES[challenge].lives && (
+              <div className="flex items-center text-red-600 font-extrabold text-4xl select-none">
+                <span role="img" aria-label={t("game.lives")} className="mr-2 text-5xl animate-pulse">❤️</span> {lives}
+              </div>
+            )}
             <div className="flex flex-col items-center text-blue-600 font-extrabold text-4xl select-none">
-              <span role="img" aria-label="trophy" className="mb-1 text-5xl">🏆</span> {score}
+              <span role="img" aria-label={t("game.score")} className="mb-1 text-5xl">🏆</span> {score}
+            </div>
+            <div className={`flex flex-col items-center font-extrabold select-none ${combo >= COMBO_TIERS[COMBO_TIERS.length - 1][0] ? 'text-orange-500' : 'text-gray-400'}`}>
+              <span className="text-sm">{t("game.combo")}</span>
+              <span className="text-4xl">🔥 {combo}</span>
+              <span className="text-sm">×{comboMultiplier(combo)}</span>
             </div>
-            <div className="flex flex-col items-center text-green-700 font-extrabold text-3xl select-none">
-              <span className="text-sm">Next Level</span>
-              <span className="text-4xl">{bombsToNextLevel - (bombsCleared % bombsToNextLevel)}</span>
+            <div className="flex flex-col space-y-2">
+              <Button className="text-sm bg-gray-600 hover:bg-gray-700" onClick={pauseGame} disabled={paused}>{t("game.pause")}</Button>
+              {challenge === 'zen' && (
+                <Button className="text-sm bg-green-600 hover:bg-green-700" onClick={finishZen}>{t("game.finish")}</Button>
+              )}
+              <Button className="text-sm bg-gray-600 hover:bg-gray-700" onClick={() => saveSoundSettings({ ...soundSettings, muted: !soundSettings.muted })}>
+                {soundSettings.muted ? t("game.unmute") : t("game.mute")}
+              </Button>
             </div>
+            {challenge === 'sprint' ? (
+              <div className={`flex flex-col items-center font-extrabold text-3xl select-none ${SPRINT_MS - elapsedMs <= 10000 ? 'text-red-600' : 'text-green-700'}`}>
+                <span className="text-sm">{t("game.timeLeft")}</span>
+                <span className="text-4xl">{formatClock(SPRINT_MS - elapsedMs)}</span>
+              </div>
+            ) : challenge === 'clear' ? (
+              <div className="flex flex-col items-center text-green-700 font-extrabold text-3xl select-none">
+                <span className="text-sm">{t("game.defused", { clock: formatClock(elapsedMs) })}</span>
+                <span className="text-4xl">{Math.min(bombsCleared, CLEAR_TARGET)}/{CLEAR_TARGET}</span>
+              </div>
+            ) : challenge === 'zen' ? (
+              <div className="flex flex-col items-center text-teal-700 font-extrabold text-3xl select-none">
+                <span className="text-sm">{t("game.practiceTime")}</span>
+                <span className="text-4xl">{formatClock(elapsedMs)}</span>
+              </div>
+            ) : adaptive ? (
+              <div className="flex flex-col items-center text-indigo-700 font-extrabold text-3xl select-none">
+                <span className="text-sm">{t("game.pace")}</span>
+                <span className="text-4xl">{t("game.perMinute", { pace: (60000 / adaptiveTuning.speed * adaptiveTuning.count).toFixed(0) })}</span>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center text-green-700 font-extrabold text-3xl select-none">
+                <span className="text-sm">{t("game.nextLevel")}</span>
+                <span className="text-4xl">{BOMBS_TO_NEXT_LEVEL - (bombsCleared % BOMBS_TO_NEXT_LEVEL)}</span>
+              </div>
+            )}
           </div>
           <div className="relative w-[400px] h-[500px] mx-auto block">
-            <canvas ref={canvasRef} width={400} height={500} className="bg-gray-900 border-4 border-gray-700 rounded-lg shadow-2xl" />
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="bg-gray-900 border-4 border-gray-700 rounded-lg shadow-2xl"
+              role="img"
+              aria-label={t("game.canvas")}
+            />
             {floatingTexts.map((text) => (
-              <FloatingText key={text.id} x={text.x} y={text.y} value={text.value} onDisappear={() => handleDisappear(text.id)} />
+              <FloatingText key={text.id} x={text.x} y={text.y} value={text.value} color={text.color} onDisappear={() => handleDisappear(text.id)} />
             ))}
+            {(paused || countdown > 0) && (
+              <div className="absolute inset-0 flex flex-col justify-center items-center bg-black/70 rounded-lg text-white">
+                {paused ? (
+                  <>
+                    <h2 className="text-5xl font-extrabold mb-2">{t("game.paused")}</h2>
+                    <p className="mb-8 text-gray-300">{t("game.resumeHint")}</p>
+                    <Button className="px-10 py-3 text-xl bg-green-500 hover:bg-green-600 shadow-lg mb-4" onClick={resumeGame}>{t("game.resume")}</Button>
+                    <Button className="px-6 py-2 bg-gray-500 hover:bg-gray-600" onClick={resetGame}>{t("game.quit")}</Button>
+                  </>
+                ) : (
+                  <span className="text-8xl font-extrabold animate-pulse">{countdown}</span>
+                )}
+              </div>
+            )}
           </div>
           <div className="mt-8 text-center text-gray-800 text-xl font-medium">
-            <p>Difficulty: <span className="font-bold capitalize text-green-700">{currentDifficulty.name}</span></p>
+            <p>{t("game.difficulty")} <span className="font-bold capitalize text-green-700">{difficultyName(t, currentDifficulty.name)}</span></p>
+            {mode && <p>{t("game.drill")} <span className="font-bold text-green-700">{lessonTitle}</span></p>}
+            <p className="mt-2 text-base text-gray-600">{t("game.specials")}</p>
           </div>
           <div className="mt-6">
-              {mode && <Keyboard activeKeys={activeKeys} mode={mode} />}
+              {layout && showCoaching && (
+                <HandDiagram finger={urgentKey !== null ? FINGER_OF[urgentKey] : null} label={urgentKey !== null ? keyLabel(t, urgentKey, layout) : ""} t={t} />
+              )}
+              {layout && <Keyboard activeKeys={activeKeys} layout={layout} coaching={showCoaching} t={t} />}
           </div>
         </>
       )}
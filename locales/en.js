@@ -0,0 +1,364 @@
+// English UI messages. These are the reference catalog: every key the game
+// uses is defined here, and other catalogs fall back to it for missing keys.
+//
+// `{name}` placeholders are filled in by the game. A message given as
+// `{ one, other }` is chosen by the `{count}` placeholder's plural form.
+export default {
+  code: "en",
+  name: "English",
+  messages: {
+    "language.label": "Language",
+
+    "mode.en": "English",
+    "mode.zh": "Zhuyin",
+
+    "drill.en.chars": "Letters",
+    "drill.en.words": "Words",
+    "drill.zh.chars": "Symbols",
+    "drill.zh.words": "Syllables",
+    "drill.zh.hanzi": "漢字",
+
+    "rowLesson.home": "Home Row",
+    "rowLesson.homeTop": "Home + Top Row",
+    "rowLesson.homeTopBottom": "Home, Top + Bottom Rows",
+    "rowLesson.all": "All Rows",
+
+    "difficulty.veryEasy": "Very Easy",
+    "difficulty.easy": "Easy",
+    "difficulty.normal": "Normal",
+    "difficulty.hard": "Hard",
+    "difficulty.veryHard": "Very Hard",
+    "difficulty.adaptive": "Adaptive",
+
+    "challenge.survival.name": "Survival",
+    "challenge.survival.description": "Play until you run out of lives",
+    "challenge.sprint.name": "60-Second Sprint",
+    "challenge.sprint.description": "Score as much as you can in 60 seconds",
+    "challenge.clear.name": "Clear {target}",
+    "challenge.clear.description": "Defuse {target} bombs as fast as you can",
+    "challenge.zen.name": "Zen",
+    "challenge.zen.description": "No lives and no game over: practise, then finish when ready",
+
+    "menu.guest": "Playing as Guest",
+    "menu.switchPlayer": "Switch Player",
+    "menu.choosePlayer": "Choose Player",
+    "menu.welcome": "Welcome to Typing Bomb Squad!",
+    "menu.selectMode": "Select your practice mode:",
+    "menu.englishMode": "English Mode",
+    "menu.zhuyinMode": "Zhuyin Mode",
+    "menu.selectDrill": "Select Drill:",
+    "menu.assigned": "Assigned by your teacher",
+    "menu.homeRow": "🖐 Learn the Home Row",
+    "menu.rowLessonLocked": "Clear {bombs} bombs at {accuracy}% accuracy in the previous lesson to unlock",
+    "menu.fingerGuidance": "Show finger guidance in every lesson",
+    "menu.layout": "Keyboard layout:",
+    "menu.selectChallenge": "Select Game Mode:",
+    "menu.selectDifficulty": "Select Difficulty:",
+    "menu.levelLocked": "Clear the previous level to unlock",
+    "menu.best": "Best: {best}",
+    "menu.adaptive": "🧠 Adaptive",
+    "menu.lessonPacks": "Manage Lesson Packs",
+    "menu.versus": "⚔ Versus",
+    "menu.race": "🏁 Race",
+    "menu.replays": "🎬 Replays",
+    "menu.sound": "🔊 Sound",
+    "menu.accessibility": "♿ Accessibility",
+    "menu.teacher": "🍎 Teacher",
+    "menu.group.mode": "Practice mode",
+    "menu.group.drill": "Drill",
+    "menu.group.packs": "Lesson packs",
+    "menu.group.rowLessons": "Home row lessons",
+    "menu.group.challenge": "Game mode",
+    "menu.group.difficulty": "Difficulty (starts the round)",
+
+    "game.lives": "Lives",
+    "game.score": "Score",
+    "game.combo": "Combo",
+    "game.pause": "⏸ Pause",
+    "game.finish": "✔ Finish",
+    "game.mute": "🔊 Mute",
+    "game.unmute": "🔇 Unmute",
+    "game.timeLeft": "Time Left",
+    "game.defused": "Defused · {clock}",
+    "game.practiceTime": "Practice Time",
+    "game.pace": "Pace",
+    "game.perMinute": "{pace}/min",
+    "game.nextLevel": "Next Level",
+    "game.canvas": "Play field with falling bombs",
+    "game.paused": "⏸ Paused",
+    "game.resumeHint": "Press Esc or Space to resume",
+    "game.resume": "Resume",
+    "game.quit": "Quit Round",
+    "game.difficulty": "Difficulty:",
+    "game.drill": "Drill:",
+    "game.specials": "❄ slows bombs · ☢ clears the screen · ❤ restores a life · 🛡 type it twice · 💀 don't type it!",
+    "game.levelComplete": "LEVEL COMPLETE!",
+    "game.nextDifficulty": "Next: {level}",
+
+    "float.freeze": "❄ Freeze! {points}",
+    "float.nuke": "☢ Boom! {points}",
+    "float.heart": "❤ +1 life {points}",
+    "float.armor": "🛡 Crack! Again!",
+    "float.decoy": "💀 Decoy! -1 life",
+
+    "announce.spawn.normal": "New bomb: {text}",
+    "announce.spawn.freeze": "New freeze bomb: {text}",
+    "announce.spawn.nuke": "New nuke bomb: {text}",
+    "announce.spawn.heart": "New heart bomb: {text}",
+    "announce.spawn.armored": "New armored bomb: {text}",
+    "announce.spawn.decoy": "New decoy bomb: {text}",
+    "announce.hit": "Defused {text}, {points} points",
+    "announce.livesLeft": { one: "{count} life left", other: "{count} lives left" },
+    "announce.extraLife": "Extra life, {lives}",
+    "announce.armor": "Armour cracked on {text}, type it again",
+    "announce.decoy": "Decoy!",
+    "announce.decoyLives": "Decoy! {lives}",
+    "announce.landed": { one: "A bomb landed, {lives}", other: "{count} bombs landed, {lives}" },
+    "announce.levelUp": "Level complete! Next: {level}",
+    "announce.roundOver": "Round over. Score {score}",
+
+    "result.gameOver": "GAME OVER!",
+    "result.timesUp": "TIME'S UP!",
+    "result.allClear": "ALL CLEAR!",
+    "result.sessionComplete": "SESSION COMPLETE",
+    "result.score": "Your Score:",
+    "result.time": "Time:",
+    "result.grade": "Grade",
+    "result.base": "Bombs defused",
+    "result.height": "Height bonus",
+    "result.combo": "Combo bonus",
+    "result.penalty": "Wrong-key penalty",
+    "result.accuracyStreak": "Accuracy · best streak",
+    "result.savingTo": "Saving to",
+    "result.namePlaceholder": "Enter your name (optional)",
+    "result.submit": "Submit Score",
+    "result.unlocked": "🎉 New lesson unlocked: {lesson}",
+    "result.watchReplay": "🎬 Watch Replay",
+    "result.saveReplay": "Save Replay",
+    "result.replaySaved": "Replay Saved",
+
+    "stats.title": "📊 Round Stats",
+    "stats.accuracy": "Accuracy",
+    "stats.kpm": "Keys / Minute",
+    "stats.duration": "Duration",
+    "stats.slowest": "🐢 Slowest Keys",
+    "stats.noHits": "No hits this round.",
+    "stats.mostMissed": "🎯 Most Missed Keys",
+    "stats.noMisses": "No misses. Great job!",
+    "stats.missed": "{count} missed",
+    "stats.missedPercent": "{percent}% missed",
+    "stats.heatmap": "Weak-Key Heatmap",
+    "stats.history": "History for {player}",
+    "stats.date": "Date",
+    "stats.lesson": "Lesson",
+    "stats.score": "Score",
+    "stats.kpmShort": "KPM",
+    "stats.leaderboard": "View Leaderboard",
+
+    "board.title": "🏆 Leaderboard 🏆",
+    "board.difficulty": "Difficulty",
+    "board.allDifficulties": "All difficulties",
+    "board.earlierScores": "Earlier scores",
+    "board.lesson": "Lesson",
+    "board.allLessons": "All lessons",
+    "board.range": "Time range",
+    "board.today": "Today",
+    "board.week": "This Week",
+    "board.allTime": "All-Time",
+    "board.empty": "No scores yet. Be the first!",
+    "board.points": "{score} pts",
+    "board.playAgain": "Play Again",
+
+    "profiles.title": "👋 Who's Playing?",
+    "profiles.summary": { one: "({mode}, {count} round)", other: "({mode}, {count} rounds)" },
+    "profiles.playing": "Playing",
+    "profiles.play": "Play",
+    "profiles.export": "Export",
+    "profiles.delete": "Delete",
+    "profiles.confirmDelete": "Delete {name} and all of their progress?",
+    "profiles.new": "New Player",
+    "profiles.name": "Name",
+    "profiles.import": "Import Profile",
+    "profiles.create": "Create Player",
+    "profiles.guest": "Play as Guest",
+    "profiles.nameRequired": "Please enter a name.",
+    "profiles.duplicate": "There is already a player called \"{name}\".",
+    "profiles.notProfile": "That file is not an exported player profile.",
+    "profiles.invalidJson": "That file is not valid JSON.",
+
+    "common.back": "Back",
+    "common.cancel": "Cancel",
+    "common.done": "Done",
+
+    "keyboard.space": "Space",
+
+    "finger.hint": "Use your {finger} for {key}",
+    "finger.left-pinky": "left pinky",
+    "finger.left-ring": "left ring finger",
+    "finger.left-middle": "left middle finger",
+    "finger.left-index": "left index finger",
+    "finger.thumb": "thumb",
+    "finger.right-index": "right index finger",
+    "finger.right-middle": "right middle finger",
+    "finger.right-ring": "right ring finger",
+    "finger.right-pinky": "right pinky",
+
+    "packs.title": "📚 Lesson Packs",
+    "packs.empty": "No lesson packs yet. Create or import one below.",
+    "packs.summary": { one: "({mode}, {count} entry)", other: "({mode}, {count} entries)" },
+    "packs.edit": "Edit",
+    "packs.delete": "Delete",
+    "packs.editTitle": "Edit Pack",
+    "packs.newTitle": "New Pack",
+    "packs.namePlaceholder": "Pack name (e.g. Week 3 spelling)",
+    "packs.entriesPlaceholder": "One character, word or sentence per line",
+    "packs.import": "Import JSON / CSV / TXT",
+    "packs.save": "Save Pack",
+    "packs.error.atLine": "Line {line}: {message}",
+    "packs.error.inPack": "Pack {pack}, {message}",
+    "packs.error.inEntry": "entry {entry}: {message}",
+    "packs.error.empty": "Empty entry",
+    "packs.error.unsupported": "Unsupported character \"{char}\"",
+    "packs.error.unknownZhuyin": "Unknown Zhuyin symbol \"{char}\"",
+    "packs.error.mixed": "Mixes Zhuyin symbols and 漢字",
+    "packs.error.noEntries": "Pack has no entries",
+    "packs.error.invalidJson": "File is not valid JSON",
+    "packs.error.shape": "expected { name, mode: \"en\" | \"zh\", entries: [...] }",
+    "packs.error.nameRequired": "Pack name is required",
+
+    "sound.title": "🔊 Sound Settings",
+    "sound.master": "Master volume",
+    "sound.sfx": "Sound effects",
+    "sound.music": "Music",
+    "sound.muteAll": "Mute all sound",
+    "sound.phonetic": "Speak each cleared bomb aloud",
+    "sound.effect.hit": "Hit",
+    "sound.effect.miss": "Miss",
+    "sound.effect.level-up": "Level up",
+    "sound.effect.countdown": "Countdown",
+    "sound.effect.game-over": "Game over",
+
+    "accessibility.title": "♿ Accessibility",
+    "accessibility.colours": "Colours",
+    "accessibility.theme.standard": "Standard",
+    "accessibility.theme.high-contrast": "High contrast",
+    "accessibility.theme.colorblind": "Colour-blind safe",
+    "accessibility.animation": "Animation",
+    "accessibility.motion.system": "Follow my device",
+    "accessibility.motion.reduce": "Reduce motion",
+    "accessibility.motion.full": "Full motion",
+    "accessibility.textSize": "Bomb text size",
+    "accessibility.announce": "Announce bombs, hits and lives to screen readers",
+
+    "replay.title": "🎬 Replay: {player}",
+    "replay.diverged": "This replay was recorded with a different version of the game and may not play back exactly.",
+    "replay.levelUp": "Level up: {level}",
+    "replay.pause": "⏸ Pause",
+    "replay.play": "▶ Play",
+    "replay.libraryTitle": "🎬 Saved Replays",
+    "replay.empty": "No saved replays yet. Save one from the stats screen after a round.",
+    "replay.watch": "Watch",
+    "replay.export": "Export",
+    "replay.delete": "Delete",
+    "replay.import": "Import Replay",
+    "replay.notReplay": "That file is not a Typing Bomb Squad replay.",
+    "replay.invalidJson": "That file is not valid JSON.",
+
+    "versus.rules": "Player 1 types on the left half of the keyboard and Player 2 on the right. Every {every}-key combo drops {bombs} extra bombs on your opponent. Last player standing wins!",
+    "versus.leftHalf": "⬅ Left half",
+    "versus.rightHalf": "Right half ➡",
+    "versus.player": "Player {number}",
+    "versus.start": "Start Match",
+    "versus.draw": "🤝 It's a draw!",
+    "versus.wins": "🏆 {player} wins!",
+    "versus.score": "Score",
+    "versus.livesLeft": "Lives left",
+    "versus.defused": "Bombs defused",
+    "versus.bestCombo": "Best combo",
+    "versus.sent": "Bombs sent",
+    "versus.accuracy": "Accuracy",
+    "versus.rematch": "Rematch",
+    "versus.changePlayers": "Change Players",
+    "versus.sentTitle": "Bombs sent to the opponent",
+    "versus.quit": "Quit Match",
+
+    "race.title": "🏁 Classroom Race",
+    "race.intro": "Race everyone on your network. Someone runs node server/relay.js, then everybody enters its address and the same room code.",
+    "race.addressPlaceholder": "Relay address (e.g. ws://192.168.1.20:{port})",
+    "race.roomPlaceholder": "Room code (e.g. class-3b)",
+    "race.namePlaceholder": "Your name",
+    "race.connecting": "Connecting…",
+    "race.join": "Join Room",
+    "race.room": "🏁 Room {code}",
+    "race.host": "Host: 👑 {name}",
+    "race.inProgress": "Race in progress…",
+    "race.results": "🏆 Results",
+    "race.waitingFirst": "Waiting for the first race.",
+    "race.players": "Players ({count})",
+    "race.joinsNext": "(joins next race)",
+    "race.left": "(left)",
+    "race.start": "Start Race",
+    "race.end": "End Race",
+    "race.waitingHost": "Waiting for the host to start the race…",
+    "race.leave": "Leave Room",
+    "race.unplayable": "The host started a race this version of the game can't play.",
+    "race.badAddress": "That doesn't look like a relay address (it should start with ws://)",
+    "race.connectionLost": "Lost connection to the relay. Finish your round; the others can't see it.",
+    "race.unreachable": "Couldn't reach the relay. Check the address and that it is running.",
+
+    "teacher.title": "🍎 Teacher Dashboard",
+    "teacher.choosePassword": "Choose a password for the teacher dashboard.",
+    "teacher.enterPassword": "Enter the teacher password.",
+    "teacher.password": "Password",
+    "teacher.repeatPassword": "Repeat password",
+    "teacher.setPassword": "Set Password",
+    "teacher.unlock": "Unlock",
+    "teacher.passwordTooShort": "Use at least {min} characters.",
+    "teacher.passwordMismatch": "The passwords don't match.",
+    "teacher.wrongPassword": "Wrong password.",
+    "teacher.printTitle": "Typing Bomb Squad — {className} Summary",
+    "teacher.defaultClass": "Class",
+    "teacher.studentCount": { one: "{count} student", other: "{count} students" },
+    "teacher.student": "Student",
+    "teacher.rounds": "Rounds",
+    "teacher.lastPlayed": "Last played",
+    "teacher.bestScore": "Best score",
+    "teacher.assignedPacks": "Assigned packs",
+    "teacher.classMisses": "Keys the class misses most ({mode})",
+    "teacher.noMisses": "No misses recorded.",
+    "teacher.averagesNote": "Accuracy and KPM are averages over each student's last {count} rounds.",
+    "teacher.print": "🖨 Print",
+    "teacher.noRounds": "No rounds yet.",
+    "teacher.trend": "Last: {last} · best: {best}",
+    "teacher.assignedTitle": "📚 Assigned Lesson Packs",
+    "teacher.noPacks": "No lesson packs yet. Create some under Manage Lesson Packs.",
+    "teacher.recentRounds": "Recent Rounds",
+    "teacher.backToClass": "Back to Class",
+    "teacher.class": "Class:",
+    "teacher.classPlaceholder": "e.g. 3B",
+    "teacher.roster": "Class Roster",
+    "teacher.noStudents": "Nobody has played on this device yet.",
+    "teacher.synced": "(synced)",
+    "teacher.rosterHint": "Click a student for their progress charts and to assign lesson packs.",
+    "teacher.struggles": "Keys the Class Struggles With",
+    "teacher.syncTitle": "Sync with a Local Server",
+    "teacher.syncHelp": "Optional. Run node server/relay.js on one machine, then upload from each device and download on yours. Every device must use the same class name and teacher password.",
+    "teacher.serverPlaceholder": "Server address (e.g. http://192.168.1.20:{port})",
+    "teacher.upload": "⬆ Upload",
+    "teacher.download": "⬇ Download",
+    "teacher.nameClass": "Name the class above to sync it.",
+    "teacher.uploading": "Uploading…",
+    "teacher.uploaded": { one: "Uploaded {count} student.", other: "Uploaded {count} students." },
+    "teacher.uploadFailed": "Upload failed ({status}).",
+    "teacher.downloading": "Downloading…",
+    "teacher.downloadFailed": "Download failed ({status}).",
+    "teacher.wrongClassPassword": "This class was first synced with a different teacher password.",
+    "teacher.downloaded": { one: "Loaded {count} student from other devices.", other: "Loaded {count} students from other devices." },
+    "teacher.unreachable": "Couldn't reach the server. Is `node server/relay.js` running?",
+    "teacher.exportSessions": "Export Sessions CSV",
+    "teacher.exportSummary": "Export Summary CSV",
+    "teacher.printable": "🖨 Printable Summary",
+    "teacher.changePassword": "Change Password",
+    "teacher.lock": "Lock & Exit"
+  }
+};
@@ -0,0 +1,6 @@
+// Every UI language, in the order the language picker lists them.
+// To add a language, copy en.js, translate its messages and list it here.
+import en from "./en.js";
+import zhTW from "./zh-TW.js";
+
+export default [en, zhTW];
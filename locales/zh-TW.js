@@ -0,0 +1,360 @@
+// 繁體中文（臺灣）介面文字。鍵名與 en.js 相同；缺少的訊息會改用英文顯示。
+export default {
+  code: "zh-TW",
+  name: "繁體中文",
+  messages: {
+    "language.label": "語言",
+
+    "mode.en": "英文",
+    "mode.zh": "注音",
+
+    "drill.en.chars": "字母",
+    "drill.en.words": "單字",
+    "drill.zh.chars": "注音符號",
+    "drill.zh.words": "拼音",
+    "drill.zh.hanzi": "漢字",
+
+    "rowLesson.home": "基本列",
+    "rowLesson.homeTop": "基本列 + 上排",
+    "rowLesson.homeTopBottom": "基本列、上排 + 下排",
+    "rowLesson.all": "全部按鍵",
+
+    "difficulty.veryEasy": "非常簡單",
+    "difficulty.easy": "簡單",
+    "difficulty.normal": "普通",
+    "difficulty.hard": "困難",
+    "difficulty.veryHard": "非常困難",
+    "difficulty.adaptive": "自動調整",
+
+    "challenge.survival.name": "生存",
+    "challenge.survival.description": "玩到生命用完為止",
+    "challenge.sprint.name": "60 秒衝刺",
+    "challenge.sprint.description": "在 60 秒內拿到最高分",
+    "challenge.clear.name": "拆除 {target} 顆",
+    "challenge.clear.description": "用最快的速度拆除 {target} 顆炸彈",
+    "challenge.zen.name": "自在練習",
+    "challenge.zen.description": "沒有生命限制也不會結束，練好了再按完成",
+
+    "menu.guest": "以訪客身分遊玩",
+    "menu.switchPlayer": "切換玩家",
+    "menu.choosePlayer": "選擇玩家",
+    "menu.welcome": "歡迎來到打字拆彈小隊！",
+    "menu.selectMode": "請選擇練習模式：",
+    "menu.englishMode": "英文模式",
+    "menu.zhuyinMode": "注音模式",
+    "menu.selectDrill": "選擇練習內容：",
+    "menu.assigned": "老師指派的課程",
+    "menu.homeRow": "🖐 學習基本列",
+    "menu.rowLessonLocked": "在上一課以 {accuracy}% 正確率拆除 {bombs} 顆炸彈即可解鎖",
+    "menu.fingerGuidance": "每一課都顯示手指提示",
+    "menu.layout": "鍵盤配置：",
+    "menu.selectChallenge": "選擇遊戲模式：",
+    "menu.selectDifficulty": "選擇難度：",
+    "menu.levelLocked": "過了上一關就能解鎖",
+    "menu.best": "最佳：{best}",
+    "menu.adaptive": "🧠 自動調整",
+    "menu.lessonPacks": "管理課程包",
+    "menu.versus": "⚔ 對戰",
+    "menu.race": "🏁 競賽",
+    "menu.replays": "🎬 重播",
+    "menu.sound": "🔊 聲音",
+    "menu.accessibility": "♿ 無障礙",
+    "menu.teacher": "🍎 老師",
+    "menu.group.mode": "練習模式",
+    "menu.group.drill": "練習內容",
+    "menu.group.packs": "課程包",
+    "menu.group.rowLessons": "基本列課程",
+    "menu.group.challenge": "遊戲模式",
+    "menu.group.difficulty": "難度（選了就開始）",
+
+    "game.lives": "生命",
+    "game.score": "分數",
+    "game.combo": "連擊",
+    "game.pause": "⏸ 暫停",
+    "game.finish": "✔ 完成",
+    "game.mute": "🔊 靜音",
+    "game.unmute": "🔇 開啟聲音",
+    "game.timeLeft": "剩餘時間",
+    "game.defused": "已拆除 · {clock}",
+    "game.practiceTime": "練習時間",
+    "game.pace": "速度",
+    "game.perMinute": "每分鐘 {pace} 顆",
+    "game.nextLevel": "距離下一關",
+    "game.canvas": "炸彈落下的遊戲畫面",
+    "game.paused": "⏸ 暫停中",
+    "game.resumeHint": "按 Esc 或空白鍵繼續",
+    "game.resume": "繼續",
+    "game.quit": "結束這一局",
+    "game.difficulty": "難度：",
+    "game.drill": "練習：",
+    "game.specials": "❄ 炸彈變慢 · ☢ 清除畫面 · ❤ 補一條命 · 🛡 要打兩次 · 💀 不要打它！",
+    "game.levelComplete": "過關！",
+    "game.nextDifficulty": "下一關：{level}",
+
+    "float.freeze": "❄ 冰凍！{points}",
+    "float.nuke": "☢ 轟！{points}",
+    "float.heart": "❤ 生命 +1 {points}",
+    "float.armor": "🛡 裂開了！再打一次！",
+    "float.decoy": "💀 陷阱！生命 -1",
+
+    "announce.spawn.normal": "新炸彈：{text}",
+    "announce.spawn.freeze": "新的冰凍炸彈：{text}",
+    "announce.spawn.nuke": "新的清場炸彈：{text}",
+    "announce.spawn.heart": "新的愛心炸彈：{text}",
+    "announce.spawn.armored": "新的裝甲炸彈：{text}",
+    "announce.spawn.decoy": "新的陷阱炸彈：{text}",
+    "announce.hit": "拆除 {text}，得 {points} 分",
+    "announce.livesLeft": "剩 {count} 條命",
+    "announce.extraLife": "多一條命，{lives}",
+    "announce.armor": "{text} 的裝甲裂開了，再打一次",
+    "announce.decoy": "陷阱！",
+    "announce.decoyLives": "陷阱！{lives}",
+    "announce.landed": "{count} 顆炸彈落地，{lives}",
+    "announce.levelUp": "過關！下一關：{level}",
+    "announce.roundOver": "這一局結束，得分 {score}",
+
+    "result.gameOver": "遊戲結束！",
+    "result.timesUp": "時間到！",
+    "result.allClear": "全部拆除！",
+    "result.sessionComplete": "練習完成",
+    "result.score": "你的分數：",
+    "result.time": "時間：",
+    "result.grade": "等級",
+    "result.base": "拆除炸彈",
+    "result.height": "高度加分",
+    "result.combo": "連擊加分",
+    "result.penalty": "按錯扣分",
+    "result.accuracyStreak": "正確率 · 最長連擊",
+    "result.savingTo": "儲存到",
+    "result.namePlaceholder": "輸入你的名字（可不填）",
+    "result.submit": "送出分數",
+    "result.unlocked": "🎉 解鎖新課程：{lesson}",
+    "result.watchReplay": "🎬 觀看重播",
+    "result.saveReplay": "儲存重播",
+    "result.replaySaved": "已儲存重播",
+
+    "stats.title": "📊 本局統計",
+    "stats.accuracy": "正確率",
+    "stats.kpm": "每分鐘按鍵數",
+    "stats.duration": "時間",
+    "stats.slowest": "🐢 最慢的按鍵",
+    "stats.noHits": "這一局沒有打中任何按鍵。",
+    "stats.mostMissed": "🎯 最常按錯的按鍵",
+    "stats.noMisses": "完全沒有按錯，太棒了！",
+    "stats.missed": "按錯 {count} 次",
+    "stats.missedPercent": "按錯 {percent}%",
+    "stats.heatmap": "弱點按鍵分布圖",
+    "stats.history": "{player} 的紀錄",
+    "stats.date": "日期",
+    "stats.lesson": "課程",
+    "stats.score": "分數",
+    "stats.kpmShort": "每分鐘按鍵",
+    "stats.leaderboard": "查看排行榜",
+
+    "board.title": "🏆 排行榜 🏆",
+    "board.difficulty": "難度",
+    "board.allDifficulties": "所有難度",
+    "board.earlierScores": "舊版分數",
+    "board.lesson": "課程",
+    "board.allLessons": "所有課程",
+    "board.range": "時間範圍",
+    "board.today": "今天",
+    "board.week": "本週",
+    "board.allTime": "全部",
+    "board.empty": "還沒有分數，快來當第一名！",
+    "board.points": "{score} 分",
+    "board.playAgain": "再玩一次",
+
+    "profiles.title": "👋 誰要玩？",
+    "profiles.summary": "（{mode}，{count} 局）",
+    "profiles.playing": "遊玩中",
+    "profiles.play": "開始",
+    "profiles.export": "匯出",
+    "profiles.delete": "刪除",
+    "profiles.confirmDelete": "要刪除 {name} 和所有的進度嗎？",
+    "profiles.new": "新玩家",
+    "profiles.name": "名字",
+    "profiles.import": "匯入玩家資料",
+    "profiles.create": "建立玩家",
+    "profiles.guest": "以訪客身分遊玩",
+    "profiles.nameRequired": "請輸入名字。",
+    "profiles.duplicate": "已經有叫「{name}」的玩家了。",
+    "profiles.notProfile": "這個檔案不是匯出的玩家資料。",
+    "profiles.invalidJson": "這個檔案不是有效的 JSON。",
+
+    "common.back": "返回",
+    "common.cancel": "取消",
+    "common.done": "完成",
+
+    "keyboard.space": "空白鍵",
+
+    "finger.hint": "用{finger}按 {key}",
+    "finger.left-pinky": "左手小指",
+    "finger.left-ring": "左手無名指",
+    "finger.left-middle": "左手中指",
+    "finger.left-index": "左手食指",
+    "finger.thumb": "大拇指",
+    "finger.right-index": "右手食指",
+    "finger.right-middle": "右手中指",
+    "finger.right-ring": "右手無名指",
+    "finger.right-pinky": "右手小指",
+
+    "packs.title": "📚 課程包",
+    "packs.empty": "還沒有課程包，可以在下面建立或匯入。",
+    "packs.summary": "（{mode}，{count} 個項目）",
+    "packs.edit": "編輯",
+    "packs.delete": "刪除",
+    "packs.editTitle": "編輯課程包",
+    "packs.newTitle": "新增課程包",
+    "packs.namePlaceholder": "課程包名稱（例如：第三週生字）",
+    "packs.entriesPlaceholder": "每行一個字、詞或句子",
+    "packs.import": "匯入 JSON / CSV / TXT",
+    "packs.save": "儲存課程包",
+    "packs.error.atLine": "第 {line} 行：{message}",
+    "packs.error.inPack": "第 {pack} 個課程包，{message}",
+    "packs.error.inEntry": "第 {entry} 項：{message}",
+    "packs.error.empty": "項目是空的",
+    "packs.error.unsupported": "不支援的字元「{char}」",
+    "packs.error.unknownZhuyin": "不認得的注音符號「{char}」",
+    "packs.error.mixed": "注音符號和漢字混在一起",
+    "packs.error.noEntries": "課程包裡沒有任何項目",
+    "packs.error.invalidJson": "檔案不是有效的 JSON",
+    "packs.error.shape": "格式應該是 { name, mode: \"en\" | \"zh\", entries: [...] }",
+    "packs.error.nameRequired": "請輸入課程包名稱",
+
+    "sound.title": "🔊 聲音設定",
+    "sound.master": "主音量",
+    "sound.sfx": "音效",
+    "sound.music": "音樂",
+    "sound.muteAll": "全部靜音",
+    "sound.phonetic": "拆除炸彈時唸出來",
+    "sound.effect.hit": "打中",
+    "sound.effect.miss": "打錯",
+    "sound.effect.level-up": "過關",
+    "sound.effect.countdown": "倒數",
+    "sound.effect.game-over": "遊戲結束",
+
+    "accessibility.title": "♿ 無障礙",
+    "accessibility.colours": "顏色",
+    "accessibility.theme.standard": "標準",
+    "accessibility.theme.high-contrast": "高對比",
+    "accessibility.theme.colorblind": "色盲友善",
+    "accessibility.animation": "動畫",
+    "accessibility.motion.system": "跟隨裝置設定",
+    "accessibility.motion.reduce": "減少動態效果",
+    "accessibility.motion.full": "完整動態效果",
+    "accessibility.textSize": "炸彈文字大小",
+    "accessibility.announce": "用螢幕報讀器報出炸彈、命中和生命",
+
+    "replay.title": "🎬 重播：{player}",
+    "replay.diverged": "這段重播是用不同版本的遊戲錄的，播放時可能會不太一樣。",
+    "replay.levelUp": "過關：{level}",
+    "replay.pause": "⏸ 暫停",
+    "replay.play": "▶ 播放",
+    "replay.libraryTitle": "🎬 已儲存的重播",
+    "replay.empty": "還沒有儲存的重播。玩完一局後可以在統計畫面儲存。",
+    "replay.watch": "觀看",
+    "replay.export": "匯出",
+    "replay.delete": "刪除",
+    "replay.import": "匯入重播",
+    "replay.notReplay": "這個檔案不是打字拆彈小隊的重播。",
+    "replay.invalidJson": "這個檔案不是有效的 JSON。",
+
+    "versus.rules": "玩家 1 用鍵盤左半邊，玩家 2 用右半邊。每連擊 {every} 個按鍵，就會丟 {bombs} 顆炸彈給對手。撐到最後的人獲勝！",
+    "versus.leftHalf": "⬅ 左半邊",
+    "versus.rightHalf": "右半邊 ➡",
+    "versus.player": "玩家 {number}",
+    "versus.start": "開始對戰",
+    "versus.draw": "🤝 平手！",
+    "versus.wins": "🏆 {player} 獲勝！",
+    "versus.score": "分數",
+    "versus.livesLeft": "剩下的生命",
+    "versus.defused": "拆除的炸彈",
+    "versus.bestCombo": "最長連擊",
+    "versus.sent": "丟出的炸彈",
+    "versus.accuracy": "正確率",
+    "versus.rematch": "再比一次",
+    "versus.changePlayers": "更換玩家",
+    "versus.sentTitle": "丟給對手的炸彈",
+    "versus.quit": "結束對戰",
+
+    "race.title": "🏁 班級競賽",
+    "race.intro": "和同一個網路上的每個人比賽。請一個人執行 node server/relay.js，大家再輸入它的位址和同一個房間代碼。",
+    "race.addressPlaceholder": "伺服器位址（例如 ws://192.168.1.20:{port}）",
+    "race.roomPlaceholder": "房間代碼（例如 class-3b）",
+    "race.namePlaceholder": "你的名字",
+    "race.connecting": "連線中…",
+    "race.join": "加入房間",
+    "race.room": "🏁 房間 {code}",
+    "race.host": "主持人：👑 {name}",
+    "race.inProgress": "比賽進行中…",
+    "race.results": "🏆 比賽結果",
+    "race.waitingFirst": "等待第一場比賽。",
+    "race.players": "玩家（{count}）",
+    "race.joinsNext": "（下一場加入）",
+    "race.left": "（已離開）",
+    "race.start": "開始比賽",
+    "race.end": "結束比賽",
+    "race.waitingHost": "等待主持人開始比賽…",
+    "race.leave": "離開房間",
+    "race.unplayable": "主持人開始的比賽，這個版本的遊戲沒辦法玩。",
+    "race.badAddress": "這看起來不像伺服器位址（應該以 ws:// 開頭）",
+    "race.connectionLost": "和伺服器的連線中斷了。請把這一局玩完，不過其他人看不到你的進度。",
+    "race.unreachable": "連不上伺服器。請檢查位址，並確認伺服器正在執行。",
+
+    "teacher.title": "🍎 老師專區",
+    "teacher.choosePassword": "請為老師專區設定密碼。",
+    "teacher.enterPassword": "請輸入老師密碼。",
+    "teacher.password": "密碼",
+    "teacher.repeatPassword": "再輸入一次密碼",
+    "teacher.setPassword": "設定密碼",
+    "teacher.unlock": "解鎖",
+    "teacher.passwordTooShort": "密碼至少要 {min} 個字元。",
+    "teacher.passwordMismatch": "兩次輸入的密碼不一樣。",
+    "teacher.wrongPassword": "密碼錯誤。",
+    "teacher.printTitle": "打字拆彈小隊 — {className} 摘要",
+    "teacher.defaultClass": "班級",
+    "teacher.studentCount": "{count} 位學生",
+    "teacher.student": "學生",
+    "teacher.rounds": "局數",
+    "teacher.lastPlayed": "最近遊玩",
+    "teacher.bestScore": "最高分",
+    "teacher.assignedPacks": "指派的課程包",
+    "teacher.classMisses": "全班最常按錯的按鍵（{mode}）",
+    "teacher.noMisses": "沒有按錯的紀錄。",
+    "teacher.averagesNote": "正確率和每分鐘按鍵數是每位學生最近 {count} 局的平均。",
+    "teacher.print": "🖨 列印",
+    "teacher.noRounds": "還沒有遊玩紀錄。",
+    "teacher.trend": "最近：{last} · 最佳：{best}",
+    "teacher.assignedTitle": "📚 指派的課程包",
+    "teacher.noPacks": "還沒有課程包。請先到「管理課程包」建立。",
+    "teacher.recentRounds": "最近的遊玩紀錄",
+    "teacher.backToClass": "回到班級",
+    "teacher.class": "班級：",
+    "teacher.classPlaceholder": "例如 3B",
+    "teacher.roster": "班級名單",
+    "teacher.noStudents": "這台裝置上還沒有人玩過。",
+    "teacher.synced": "（已同步）",
+    "teacher.rosterHint": "點選學生可以查看進步圖表和指派課程包。",
+    "teacher.struggles": "全班的弱點按鍵",
+    "teacher.syncTitle": "和區域網路伺服器同步",
+    "teacher.syncHelp": "可選。在一台電腦上執行 node server/relay.js，再從每台裝置上傳，然後在你的裝置下載。每台裝置都要使用相同的班級名稱和教師密碼。",
+    "teacher.serverPlaceholder": "伺服器位址（例如 http://192.168.1.20:{port}）",
+    "teacher.upload": "⬆ 上傳",
+    "teacher.download": "⬇ 下載",
+    "teacher.nameClass": "先在上面輸入班級名稱才能同步。",
+    "teacher.uploading": "上傳中…",
+    "teacher.uploaded": "已上傳 {count} 位學生。",
+    "teacher.uploadFailed": "上傳失敗（{status}）。",
+    "teacher.downloading": "下載中…",
+    "teacher.downloadFailed": "下載失敗（{status}）。",
+    "teacher.wrongClassPassword": "這個班級第一次同步時用的是另一個教師密碼。",
+    "teacher.downloaded": "已從其他裝置載入 {count} 位學生。",
+    "teacher.unreachable": "連不上伺服器。`node server/relay.js` 有在執行嗎？",
+    "teacher.exportSessions": "匯出遊玩紀錄 CSV",
+    "teacher.exportSummary": "匯出摘要 CSV",
+    "teacher.printable": "🖨 列印摘要",
+    "teacher.changePassword": "變更密碼",
+    "teacher.lock": "鎖定並離開"
+  }
+};
@@ -0,0 +1,429 @@
+// Typing Bomb Squad classroom relay.
+//
+// A tiny WebSocket relay for LAN races: clients join a room, the host starts a
+// race with a seeded config, and everyone's progress is passed on to the rest
+// of the room. It also keeps class reports uploaded from the teacher
+// dashboard on each device. It uses only Node's built-in modules, so it runs
+// anywhere with `node server/relay.js [port]` and no install step. See PROTOCOL.md.
+//
+// `createRelayServer` builds a relay without starting it, for the tests in
+// relay.test.js; running this file starts one on the given port.
+
+const http = require("http");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const DEFAULT_PORT = 8787;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const HEARTBEAT_MS = 15000;
+const DEFAULT_COUNTDOWN_MS = 3000;
+const MAX_COUNTDOWN_MS = 10000;
+const ROOM_CODE = /^[A-Za-z0-9-]{1,20}$/;
+const MAX_NAME_LENGTH = 20;
+const REPORTS_FILE = path.join(__dirname, "class-reports.json");
+const MAX_REPORT_BYTES = 5 * 1024 * 1024;
+const REPORT_PATH = /^\/class\/([A-Za-z0-9-]{1,40})(?:\/([A-Za-z0-9-]{1,40}))?$/;
+const CLASS_TOKEN = /^Bearer ([A-Za-z0-9-]{8,128})$/;
+
+// --- WebSocket framing (RFC 6455, text frames only) ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Wraps an upgraded socket and calls `onMessage` with each complete text message.
+const createConnection = (socket, onMessage, onClose) => {
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+  let alive = true;
+
+  const write = (opcode, payload) => {
+    if (!closed && socket.writable) socket.write(encodeFrame(opcode, payload));
+  };
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    write(0x8, payload);
+    closed = true;
+    socket.end();
+  };
+
+  const parse = () => {
+    while (buffered.length >= 2) {
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        const big = buffered.readBigUInt64BE(2);
+        length = big > BigInt(MAX_MESSAGE_BYTES) ? MAX_MESSAGE_BYTES + 1 : Number(big);
+        offset = 10;
+      }
+      // Clients must mask their frames; oversized messages are refused.
+      if (!masked) return close(1002);
+      if (length > MAX_MESSAGE_BYTES) return close(1009);
+      if (buffered.length < offset + 4 + length) return;
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffered = buffered.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) return close();
+      if (opcode === 0x9) write(0xa, payload);
+      else if (opcode === 0xa) alive = true;
+      else if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        const total = fragments.reduce((sum, part) => sum + part.length, 0);
+        if (total > MAX_MESSAGE_BYTES) return close(1009);
+        if (fin) {
+          const text = Buffer.concat(fragments).toString("utf8");
+          fragments = [];
+          onMessage(text);
+        }
+      } else {
+        return close(1003);
+      }
+    }
+  };
+
+  socket.on("data", (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    parse();
+  });
+  socket.on("close", () => {
+    closed = true;
+    onClose();
+  });
+  socket.on("error", () => socket.destroy());
+
+  return {
+    send: (text) => write(0x1, Buffer.from(text, "utf8")),
+    close,
+    // Pings the client; returns false if the previous ping went unanswered.
+    heartbeat: () => {
+      if (!alive) return false;
+      alive = false;
+      write(0x9, Buffer.alloc(0));
+      return true;
+    },
+    destroy: () => socket.destroy()
+  };
+};
+
+// --- Rooms ---
+
+// Each relay's state is `{ rooms, nextClientId, reports, reportsFile, allowedOrigins }`.
+
+const snapshot = (room) => ({
+  type: "room",
+  code: room.code,
+  hostId: room.hostId,
+  phase: room.phase,
+  race: room.race,
+  players: Array.from(room.players.values()).map(({ connection, ...player }) => player)
+});
+
+const broadcast = (room, message) => {
+  const text = JSON.stringify(message);
+  room.players.forEach((player) => player.connection && player.connection.send(text));
+};
+
+// A race ends once every racer has finished or dropped out.
+const maybeEndRace = (room) => {
+  if (room.phase !== "racing") return;
+  const racers = Array.from(room.players.values()).filter((p) => p.racing);
+  if (racers.some((p) => p.connected && !p.done)) return;
+  endRace(room);
+};
+
+const endRace = (room) => {
+  room.phase = "lobby";
+  broadcast(room, snapshot(room));
+};
+
+const leave = (relay, room, id) => {
+  const player = room.players.get(id);
+  if (!player) return;
+  if (player.racing) {
+    player.connected = false;
+    player.connection = null;
+  } else {
+    room.players.delete(id);
+  }
+  const remaining = Array.from(room.players.values()).filter((p) => p.connected);
+  if (remaining.length === 0) {
+    relay.rooms.delete(room.code);
+    return;
+  }
+  // The longest-connected player takes over as host.
+  if (room.hostId === id) room.hostId = remaining[0].id;
+  broadcast(room, snapshot(room));
+  maybeEndRace(room);
+};
+
+const handleMessage = (relay, client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch (e) {
+    return client.error("Messages must be JSON");
+  }
+  if (!message || typeof message.type !== "string") return client.error("Missing message type");
+
+  if (message.type === "join") {
+    if (client.room) return client.error("Already in a room");
+    if (typeof message.room !== "string" || !ROOM_CODE.test(message.room)) {
+      return client.error("Room codes are 1-20 letters, digits or dashes");
+    }
+    const name = String(message.name || "").trim().slice(0, MAX_NAME_LENGTH) || `Player ${client.id}`;
+    let room = relay.rooms.get(message.room);
+    if (!room) {
+      room = { code: message.room, hostId: client.id, phase: "lobby", race: null, players: new Map() };
+      relay.rooms.set(room.code, room);
+    }
+    room.players.set(client.id, {
+      id: client.id, name, connection: client.connection, connected: true,
+      // Late joiners watch the race in progress and join the next one.
+      racing: false, done: false, score: 0, lives: 0, bombsCleared: 0, timeMs: 0
+    });
+    client.room = room;
+    client.connection.send(JSON.stringify({ type: "welcome", id: client.id }));
+    broadcast(room, snapshot(room));
+    return;
+  }
+
+  const room = client.room;
+  if (!room) return client.error("Join a room first");
+
+  if (message.type === "start") {
+    if (room.hostId !== client.id) return client.error("Only the host can start a race");
+    if (room.phase === "racing") return client.error("A race is already running");
+    if (!message.config || typeof message.config !== "object") return client.error("Missing race config");
+    const countdownMs = Math.min(MAX_COUNTDOWN_MS, Math.max(0, Number(message.countdownMs) || DEFAULT_COUNTDOWN_MS));
+    // Players who left mid-race stay in the standings until the next race.
+    room.players.forEach((player, id) => {
+      if (!player.connected) room.players.delete(id);
+    });
+    room.phase = "racing";
+    room.race = { id: (room.race ? room.race.id : 0) + 1, config: message.config };
+    room.players.forEach((player) => {
+      Object.assign(player, { racing: true, done: false, score: 0, lives: 0, bombsCleared: 0, timeMs: 0 });
+    });
+    broadcast(room, snapshot(room));
+    broadcast(room, { type: "start", race: room.race, countdownMs });
+    return;
+  }
+
+  if (message.type === "progress") {
+    const player = room.players.get(client.id);
+    if (room.phase !== "racing" || !player.racing || player.done) return;
+    if (message.raceId !== room.race.id) return;
+    const progress = {
+      score: Number(message.score) || 0,
+      lives: Number(message.lives) || 0,
+      bombsCleared: Number(message.bombsCleared) || 0,
+      timeMs: Number(message.timeMs) || 0,
+      done: message.done === true
+    };
+    Object.assign(player, progress);
+    broadcast(room, { type: "progress", id: client.id, ...progress });
+    maybeEndRace(room);
+    return;
+  }
+
+  if (message.type === "end") {
+    if (room.hostId !== client.id) return client.error("Only the host can end a race");
+    if (room.phase === "racing") endRace(room);
+    return;
+  }
+
+  client.error(`Unknown message type: ${message.type}`);
+};
+
+// --- Class reports ---
+
+// { [classCode]: { tokenHash, devices: { [deviceId]: { updatedAt, students } } } },
+// saved next to this file unless the relay is given another. The first upload
+// to a class sets its token; after that every request must send the same one.
+const loadReports = (reportsFile) => {
+  try {
+    const reports = JSON.parse(fs.readFileSync(reportsFile, "utf8"));
+    // Classes saved before they had a token are dropped: nobody can prove
+    // they own them, and each device still has its students to upload again.
+    return Object.fromEntries(Object.entries(reports).filter(([, report]) => report && typeof report.tokenHash === "string"));
+  } catch (e) {
+    if (e.code !== "ENOENT") console.error("Failed to read class reports", e);
+    return {};
+  }
+};
+
+const saveReports = (relay) => {
+  fs.writeFile(relay.reportsFile, JSON.stringify(relay.reports), (e) => {
+    if (e) console.error("Failed to save class reports", e);
+  });
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+// The game is usually served from another port on the relay's machine, so
+// browsers may read reports from any origin on the relay's host, plus any
+// listed in `allowedOrigins`.
+const allowOrigin = (relay, req, res) => {
+  const origin = req.headers.origin;
+  if (!origin) return;
+  let sameHost = false;
+  try {
+    sameHost = new URL(origin).hostname === new URL(`http://${req.headers.host}`).hostname;
+  } catch (e) {
+    // A malformed Origin or Host header is simply not allowed.
+  }
+  if (!sameHost && !relay.allowedOrigins.includes(origin)) return;
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.setHeader("Vary", "Origin");
+};
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+// Whether `tokenHash` may read and write the class; anyone may claim a new class.
+const mayAccess = (relay, classCode, tokenHash) => {
+  const report = relay.reports[classCode];
+  return !report || crypto.timingSafeEqual(Buffer.from(report.tokenHash, "hex"), Buffer.from(tokenHash, "hex"));
+};
+
+const handleReports = (relay, req, res, classCode, deviceId) => {
+  allowOrigin(relay, req, res);
+  if (req.method === "OPTIONS") return sendJson(res, 204);
+  const token = CLASS_TOKEN.exec(req.headers.authorization || "");
+  if (!token) return sendJson(res, 401, { error: "Send the class token as Authorization: Bearer <token>" });
+  const tokenHash = hashToken(token[1]);
+  if (!mayAccess(relay, classCode, tokenHash)) return sendJson(res, 403, { error: "Wrong class token" });
+  if (req.method === "GET" && !deviceId) {
+    const report = relay.reports[classCode];
+    return sendJson(res, 200, { students: report ? Object.values(report.devices).flatMap((d) => d.students) : [] });
+  }
+  if (req.method !== "PUT" || !deviceId) return sendJson(res, 405, { error: "Use GET /class/<code> or PUT /class/<code>/<device>" });
+
+  let body = "";
+  req.setEncoding("utf8");
+  const collect = (chunk) => {
+    body += chunk;
+    if (body.length <= MAX_REPORT_BYTES) return;
+    // Answer straight away and throw the rest of the upload away unread.
+    req.off("data", collect);
+    req.off("end", store);
+    req.resume();
+    body = "";
+    res.setHeader("Connection", "close");
+    sendJson(res, 413, { error: "Report too large" });
+  };
+  const store = () => {
+    let data;
+    try {
+      data = JSON.parse(body);
+    } catch (e) {
+      return sendJson(res, 400, { error: "Body must be JSON" });
+    }
+    if (!data || !Array.isArray(data.students)) return sendJson(res, 400, { error: "Missing students" });
+    // Another upload may have claimed the class while this one was arriving.
+    if (!mayAccess(relay, classCode, tokenHash)) return sendJson(res, 403, { error: "Wrong class token" });
+    // Each device replaces its own upload, so re-syncing never duplicates sessions.
+    const devices = relay.reports[classCode] ? relay.reports[classCode].devices : {};
+    relay.reports[classCode] = {
+      tokenHash,
+      devices: { ...devices, [deviceId]: { updatedAt: new Date().toISOString(), students: data.students } }
+    };
+    saveReports(relay);
+    sendJson(res, 200, { ok: true });
+  };
+  req.on("data", collect);
+  req.on("end", store);
+};
+
+// --- Server ---
+
+// An HTTP server carrying both the WebSocket relay and the report endpoints;
+// call `listen` on it to start.
+const createRelayServer = ({ reportsFile = REPORTS_FILE, allowedOrigins = [] } = {}) => {
+  const relay = { rooms: new Map(), nextClientId: 1, reports: loadReports(reportsFile), reportsFile, allowedOrigins };
+
+  const server = http.createServer((req, res) => {
+    const match = REPORT_PATH.exec(req.url.split("?")[0]);
+    if (match) return handleReports(relay, req, res, match[1], match[2]);
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end(`Typing Bomb Squad relay: ${relay.rooms.size} room(s) open\n`);
+  });
+
+  server.on("upgrade", (req, socket) => {
+    const key = req.headers["sec-websocket-key"];
+    if (String(req.headers.upgrade).toLowerCase() !== "websocket" || !key) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    const accept = crypto.createHash("sha1").update(key + WS_GUID).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const client = { id: relay.nextClientId++, room: null, connection: null };
+    client.error = (message) => client.connection.send(JSON.stringify({ type: "error", message }));
+    client.connection = createConnection(
+      socket,
+      (text) => handleMessage(relay, client, text),
+      () => {
+        clearInterval(heartbeat);
+        if (client.room) leave(relay, client.room, client.id);
+      }
+    );
+    const heartbeat = setInterval(() => {
+      if (!client.connection.heartbeat()) client.connection.destroy();
+    }, HEARTBEAT_MS);
+  });
+
+  return server;
+};
+
+module.exports = { createRelayServer };
+
+if (require.main === module) {
+  const port = Number(process.argv[2] || process.env.PORT || DEFAULT_PORT);
+  // Extra origins (comma-separated) that may read class reports, for a game
+  // served from another machine.
+  const allowedOrigins = (process.env.ALLOWED_ORIGINS || "").split(",").map((o) => o.trim()).filter(Boolean);
+  createRelayServer({ allowedOrigins }).listen(port, () => {
+    console.log(`Typing Bomb Squad relay listening on ws://localhost:${port}`);
+  });
+}
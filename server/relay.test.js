@@ -0,0 +1,260 @@
+// Checks the race relay over real sockets on localhost: run `node --test` from
+// the repository root. The client below speaks just enough WebSocket (masked
+// text frames out, unmasked frames in) to drive a room.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const crypto = require("node:crypto");
+const fs = require("node:fs");
+const http = require("node:http");
+const os = require("node:os");
+const path = require("node:path");
+const { createRelayServer } = require("./relay.js");
+
+const TIMEOUT_MS = 2000;
+
+const encodeMasked = (opcode, payload) => {
+  const mask = crypto.randomBytes(4);
+  const masked = Buffer.from(payload);
+  for (let i = 0; i < masked.length; i++) masked[i] ^= mask[i % 4];
+  const length = masked.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, 0x80 | length])
+    : Buffer.from([0x80 | opcode, 0x80 | 126, length >> 8, length & 0xff]);
+  return Buffer.concat([header, mask, masked]);
+};
+
+// Opens a connection to the relay. `next(type, matches)` resolves with the
+// next message of that type that `matches` accepts, skipping any before it.
+const connect = (port) => new Promise((resolve, reject) => {
+  const req = http.request({
+    host: "127.0.0.1", port,
+    headers: {
+      Connection: "Upgrade", Upgrade: "websocket", "Sec-WebSocket-Version": "13",
+      "Sec-WebSocket-Key": crypto.randomBytes(16).toString("base64")
+    }
+  });
+  req.on("error", reject);
+  req.on("upgrade", (res, socket, head) => {
+    const inbox = [];
+    let waiting = null;
+    let closing = null;
+    let buffered = Buffer.from(head);
+
+    const deliver = () => {
+      if (!waiting) return;
+      const index = inbox.findIndex((message) => message.type === waiting.type && waiting.matches(message));
+      if (index === -1) return;
+      const message = inbox[index];
+      inbox.splice(0, index + 1);
+      clearTimeout(waiting.timer);
+      const { resolve: done } = waiting;
+      waiting = null;
+      done(message);
+    };
+
+    socket.on("data", (chunk) => {
+      buffered = Buffer.concat([buffered, chunk]);
+      while (buffered.length >= 2) {
+        const opcode = buffered[0] & 0x0f;
+        let length = buffered[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+          if (buffered.length < 4) return;
+          length = buffered.readUInt16BE(2);
+          offset = 4;
+        }
+        if (buffered.length < offset + length) return;
+        const payload = buffered.subarray(offset, offset + length);
+        buffered = buffered.subarray(offset + length);
+        if (opcode === 0x1) inbox.push(JSON.parse(payload.toString("utf8")));
+        else if (opcode === 0x9) socket.write(encodeMasked(0xa, payload));
+      }
+      deliver();
+    });
+
+    resolve({
+      send: (message) => socket.write(encodeMasked(0x1, Buffer.from(JSON.stringify(message)))),
+      next: (type, matches = () => true) => new Promise((done, fail) => {
+        const timer = setTimeout(() => fail(new Error(`No matching "${type}" message within ${TIMEOUT_MS} ms`)), TIMEOUT_MS);
+        waiting = { type, matches, resolve: done, timer };
+        deliver();
+      }),
+      close: () => closing || (closing = new Promise((done) => {
+        socket.on("close", done);
+        socket.end(encodeMasked(0x8, Buffer.from([0x03, 0xe8])));
+      }))
+    });
+  });
+  req.end();
+});
+
+// Sends a plain HTTP request to the relay's report endpoints.
+const request = (port, method, url, { headers = {}, body } = {}) => new Promise((resolve, reject) => {
+  const req = http.request({ host: "127.0.0.1", port, method, path: url, headers }, (res) => {
+    let text = "";
+    res.setEncoding("utf8");
+    res.on("data", (chunk) => (text += chunk));
+    res.on("end", () => resolve({ status: res.statusCode, headers: res.headers, body: text ? JSON.parse(text) : null }));
+  });
+  // An upload the relay refuses part way may fail to send; its response still arrives.
+  req.on("error", (e) => (e.code === "EPIPE" || e.code === "ECONNRESET" ? null : reject(e)));
+  req.end(body);
+});
+
+// Runs `body` against a fresh relay on a free port, then shuts it down.
+const withRelay = async (body) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "relay-test-"));
+  const server = createRelayServer({ reportsFile: path.join(dir, "class-reports.json") });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const clients = [];
+  const join = async (room, name) => {
+    const client = await connect(server.address().port);
+    clients.push(client);
+    client.send({ type: "join", room, name });
+    client.id = (await client.next("welcome")).id;
+    return client;
+  };
+  try {
+    await body(join, server.address().port);
+  } finally {
+    await Promise.all(clients.map((client) => client.close()));
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+const player = (room, id) => room.players.find((p) => p.id === id);
+
+test("players join a room and the first one hosts it", () => withRelay(async (join) => {
+  const ada = await join("class-1", "Ada");
+  const adaRoom = await ada.next("room");
+  assert.equal(adaRoom.hostId, ada.id);
+  assert.equal(adaRoom.phase, "lobby");
+  assert.deepEqual(adaRoom.players.map((p) => p.name), ["Ada"]);
+
+  const ben = await join("class-1", "Ben");
+  const benRoom = await ben.next("room");
+  assert.equal(benRoom.hostId, ada.id);
+  assert.deepEqual(benRoom.players.map((p) => p.name), ["Ada", "Ben"]);
+  assert.deepEqual((await ada.next("room")).players.map((p) => p.name), ["Ada", "Ben"]);
+}));
+
+test("only the host starts a race, and everyone gets its config and countdown", () => withRelay(async (join) => {
+  const ada = await join("class-1", "Ada");
+  const ben = await join("class-1", "Ben");
+
+  ben.send({ type: "start", config: { seed: 1 } });
+  assert.equal((await ben.next("error")).message, "Only the host can start a race");
+
+  ada.send({ type: "start", config: { seed: 1 }, countdownMs: 500 });
+  for (const client of [ada, ben]) {
+    const room = await client.next("room", (r) => r.phase === "racing");
+    assert.ok(room.players.every((p) => p.racing));
+    const start = await client.next("start");
+    assert.deepEqual(start.race, { id: 1, config: { seed: 1 } });
+    assert.equal(start.countdownMs, 500);
+  }
+
+  ada.send({ type: "end" });
+  assert.equal((await ben.next("room")).phase, "lobby");
+  ada.send({ type: "start", config: { seed: 2 }, countdownMs: 60000 });
+  const start = await ben.next("start");
+  assert.equal(start.race.id, 2);
+  assert.equal(start.countdownMs, 10000);
+}));
+
+test("progress is relayed to the room and the race ends when everyone is done", () => withRelay(async (join) => {
+  const ada = await join("class-1", "Ada");
+  const ben = await join("class-1", "Ben");
+  ada.send({ type: "start", config: { seed: 1 } });
+  const { race } = await ben.next("start");
+
+  ada.send({ type: "progress", raceId: race.id, score: 40, lives: 3, bombsCleared: 4, timeMs: 1500 });
+  assert.deepEqual(await ben.next("progress"), {
+    type: "progress", id: ada.id, score: 40, lives: 3, bombsCleared: 4, timeMs: 1500, done: false
+  });
+
+  ada.send({ type: "progress", raceId: race.id, score: 90, lives: 2, bombsCleared: 9, timeMs: 4000, done: true });
+  assert.equal((await ben.next("progress")).done, true);
+  ben.send({ type: "progress", raceId: race.id, score: 70, lives: 0, bombsCleared: 7, timeMs: 3000, done: true });
+  const room = await ben.next("room");
+  assert.equal(room.phase, "lobby");
+  assert.equal(player(room, ada.id).score, 90);
+  assert.equal(player(room, ben.id).score, 70);
+}));
+
+test("a late joiner watches the race and joins the next one", () => withRelay(async (join) => {
+  const ada = await join("class-1", "Ada");
+  ada.send({ type: "start", config: { seed: 1 } });
+  const { race } = await ada.next("start");
+
+  const cleo = await join("class-1", "Cleo");
+  const watching = await cleo.next("room");
+  assert.equal(watching.phase, "racing");
+  assert.equal(player(watching, cleo.id).racing, false);
+
+  // Cleo's progress doesn't count, so Ada finishing ends the race.
+  cleo.send({ type: "progress", raceId: race.id, score: 500, done: true });
+  ada.send({ type: "progress", raceId: race.id, score: 10, done: true });
+  const ended = await cleo.next("room");
+  assert.equal(ended.phase, "lobby");
+  assert.equal(player(ended, cleo.id).score, 0);
+
+  ada.send({ type: "start", config: { seed: 2 } });
+  assert.equal(player(await cleo.next("room"), cleo.id).racing, true);
+}));
+
+test("when the host disconnects the next player hosts and the race ends without them", () => withRelay(async (join) => {
+  const ada = await join("class-1", "Ada");
+  const ben = await join("class-1", "Ben");
+  const cleo = await join("class-1", "Cleo");
+  ada.send({ type: "start", config: { seed: 1 } });
+  const { race } = await ben.next("start");
+
+  await ada.close();
+  const handedOver = await ben.next("room");
+  assert.equal(handedOver.hostId, ben.id);
+  assert.equal(player(handedOver, ada.id).connected, false);
+  assert.equal(handedOver.phase, "racing");
+
+  ben.send({ type: "progress", raceId: race.id, done: true });
+  cleo.send({ type: "progress", raceId: race.id, done: true });
+  assert.equal((await ben.next("room")).phase, "lobby");
+
+  // Racers who left stay in the standings until the next race starts.
+  await cleo.close();
+  assert.equal(player(await ben.next("room"), cleo.id).connected, false);
+  ben.send({ type: "start", config: { seed: 2 } });
+  assert.deepEqual((await ben.next("room")).players.map((p) => p.name), ["Ben"]);
+}));
+
+test("class reports need the token the class was first uploaded with", () => withRelay(async (join, port) => {
+  const teacher = { Authorization: "Bearer teacher-token-1" };
+  const student = { id: "p1", name: "Ada", avatar: "🐱", sessions: [], device: "laptop-1" };
+  const upload = JSON.stringify({ students: [student] });
+
+  assert.equal((await request(port, "PUT", "/class/3b/laptop-1", { body: upload })).status, 401);
+  assert.equal((await request(port, "PUT", "/class/3b/laptop-1", { headers: teacher, body: upload })).status, 200);
+  assert.deepEqual((await request(port, "GET", "/class/3b", { headers: teacher })).body, { students: [student] });
+
+  const stranger = { Authorization: "Bearer someone-else" };
+  assert.equal((await request(port, "GET", "/class/3b")).status, 401);
+  assert.equal((await request(port, "GET", "/class/3b", { headers: stranger })).status, 403);
+  assert.equal((await request(port, "PUT", "/class/3b/laptop-2", { headers: stranger, body: upload })).status, 403);
+  assert.deepEqual((await request(port, "GET", "/class/4a", { headers: stranger })).body, { students: [] });
+}));
+
+test("only pages on the relay's host may read reports from a browser", () => withRelay(async (join, port) => {
+  const headers = { Authorization: "Bearer teacher-token-1" };
+  const sameHost = await request(port, "GET", "/class/3b", { headers: { ...headers, Origin: "http://127.0.0.1:8000" } });
+  assert.equal(sameHost.headers["access-control-allow-origin"], "http://127.0.0.1:8000");
+  const elsewhere = await request(port, "GET", "/class/3b", { headers: { ...headers, Origin: "http://example.com" } });
+  assert.equal(elsewhere.headers["access-control-allow-origin"], undefined);
+}));
+
+test("an upload over 5 MB is refused and not stored", () => withRelay(async (join, port) => {
+  const headers = { Authorization: "Bearer teacher-token-1" };
+  const body = JSON.stringify({ students: [{ name: "x".repeat(6 * 1024 * 1024) }] });
+  assert.equal((await request(port, "PUT", "/class/3b/laptop-1", { headers, body })).status, 413);
+  assert.deepEqual((await request(port, "GET", "/class/3b", { headers })).body, { students: [] });
+}));